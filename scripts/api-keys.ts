@@ -0,0 +1,107 @@
+/**
+ * Manage API keys in the file named by API_KEYS_FILE
+ * Usage: node --experimental-transform-types scripts/api-keys.ts <command>
+ *   create <name> --scopes <scope,...> [--tier <tier>] [--expires-in-days <days>]
+ *   list
+ *   revoke <id>
+ * Pass --file <path> to use another file (default: API_KEYS_FILE or data/api-keys.json).
+ * The server reads the file at startup, so restart it after a change.
+ */
+
+import { existsSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { parseArgs } from "node:util";
+import {
+  ScopeSchema,
+  generateApiKey,
+  hashApiKey,
+  loadApiKeys,
+  saveApiKeys,
+} from "../src/auth.ts";
+import type { ApiKeyRecord } from "../src/auth.ts";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    file: {
+      type: "string",
+      default: process.env.API_KEYS_FILE ?? "data/api-keys.json",
+    },
+    scopes: { type: "string" },
+    tier: { type: "string" },
+    "expires-in-days": { type: "string" },
+  },
+});
+
+const [command, argument] = positionals;
+const filename = values.file;
+const keys: ApiKeyRecord[] = existsSync(filename) ? loadApiKeys(filename) : [];
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+switch (command) {
+  case "create": {
+    if (!argument) fail("Usage: create <name> --scopes <scope,...>");
+    const scopes = ScopeSchema.array()
+      .min(1)
+      .safeParse(values.scopes?.split(",").map((scope) => scope.trim()));
+    if (!scopes.success) {
+      fail(
+        `--scopes must list one or more of: ${ScopeSchema.options.join(", ")}`,
+      );
+    }
+    const days = values["expires-in-days"];
+    if (days !== undefined && !(Number(days) > 0)) {
+      fail("--expires-in-days must be a positive number");
+    }
+
+    const key = generateApiKey();
+    const now = new Date();
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name: argument,
+      hash: hashApiKey(key),
+      scopes: scopes.data,
+      tier: values.tier || null,
+      createdAt: now.toISOString(),
+      expiresAt:
+        days === undefined
+          ? null
+          : new Date(now.getTime() + Number(days) * 86400000).toISOString(),
+      revokedAt: null,
+    };
+    saveApiKeys(filename, [...keys, record]);
+    console.log(
+      `Created key ${record.id} (${record.scopes.join(", ")}; tier ${record.tier ?? "default"})`,
+    );
+    console.log("Store it now, it cannot be shown again:");
+    console.log(key);
+    break;
+  }
+  case "list": {
+    for (const record of keys) {
+      const state = record.revokedAt
+        ? `revoked ${record.revokedAt}`
+        : record.expiresAt
+          ? `expires ${record.expiresAt}`
+          : "active";
+      console.log(
+        `${record.id}  ${record.name}  [${record.scopes.join(", ")}]  ${record.tier ?? "default"}  ${state}`,
+      );
+    }
+    break;
+  }
+  case "revoke": {
+    const record = keys.find((candidate) => candidate.id === argument);
+    if (!record) fail(`No key with id ${argument ?? "(missing)"}`);
+    record.revokedAt ??= new Date().toISOString();
+    saveApiKeys(filename, keys);
+    console.log(`Revoked key ${record.id}`);
+    break;
+  }
+  default:
+    fail("Usage: api-keys.ts create|list|revoke (see the header of this file)");
+}
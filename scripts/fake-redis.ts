@@ -0,0 +1,169 @@
+/**
+ * In-memory Redis stand-in with the commands the rate-limit store uses
+ * Usage: node --experimental-transform-types scripts/fake-redis.ts [port]
+ * run-e2e.ts starts one on a random port; it is not a general-purpose Redis.
+ */
+
+import net from "node:net";
+import { fileURLToPath } from "node:url";
+import { INCREMENT_WITHIN_SCRIPT } from "../src/rate-limits.ts";
+import { parseReply, RedisError } from "../src/redis.ts";
+import type { RedisReply } from "../src/redis.ts";
+
+interface Entry {
+  value: string;
+  // Epoch milliseconds, or null for no expiry
+  expiresAt: number | null;
+}
+
+const encode = (reply: RedisReply): string => {
+  if (reply === null) return "$-1\r\n";
+  if (reply instanceof RedisError) return `-${reply.message}\r\n`;
+  if (typeof reply === "number") return `:${String(reply)}\r\n`;
+  if (Array.isArray(reply)) {
+    return `*${String(reply.length)}\r\n${reply.map(encode).join("")}`;
+  }
+  return `$${String(Buffer.byteLength(reply))}\r\n${reply}\r\n`;
+};
+
+export interface FakeRedis {
+  port: number;
+  close: () => Promise<void>;
+}
+
+export async function startFakeRedis(port = 0): Promise<FakeRedis> {
+  const data = new Map<string, Entry>();
+
+  const lookup = (key: string): Entry | undefined => {
+    const entry = data.get(key);
+    const expired =
+      entry !== undefined &&
+      entry.expiresAt !== null &&
+      entry.expiresAt <= Date.now();
+    if (expired) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = ([name = "", ...args]: string[]): RedisReply => {
+    switch (name.toUpperCase()) {
+      case "PING":
+        return "PONG";
+      case "AUTH":
+      case "SELECT":
+      case "QUIT":
+        return "OK";
+      case "GET":
+        return lookup(args[0])?.value ?? null;
+      case "INCRBY": {
+        const entry = lookup(args[0]) ?? { value: "0", expiresAt: null };
+        entry.value = String(Number(entry.value) + Number(args[1]));
+        data.set(args[0], entry);
+        return Number(entry.value);
+      }
+      case "PEXPIRE": {
+        const entry = lookup(args[0]);
+        const onlyNew = args[2]?.toUpperCase() === "NX";
+        if (!entry || (onlyNew && entry.expiresAt !== null)) return 0;
+        entry.expiresAt = Date.now() + Number(args[1]);
+        return 1;
+      }
+      case "PTTL": {
+        const entry = lookup(args[0]);
+        if (!entry) return -2;
+        return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+      }
+      case "DEL":
+        return args.filter((key) => lookup(key) && data.delete(key)).length;
+      // No Lua here: the one script the store sends is run in JavaScript
+      case "EVAL": {
+        const [script, , key, amount, limit, windowMs] = args;
+        if (script !== INCREMENT_WITHIN_SCRIPT) {
+          return new RedisError("ERR unknown script");
+        }
+        const count = Number(lookup(key)?.value ?? 0);
+        if (count + Number(amount) > Number(limit)) {
+          return [0, count, execute(["PTTL", key])];
+        }
+        const added = execute(["INCRBY", key, amount]);
+        execute(["PEXPIRE", key, windowMs, "NX"]);
+        return [1, added, execute(["PTTL", key])];
+      }
+      default:
+        return new RedisError(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    // Commands queued since MULTI, or null outside a transaction
+    let queued: string[][] | null = null;
+
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let parsed = parseReply(buffer);
+        while (parsed) {
+          buffer = buffer.subarray(parsed.offset);
+          const args = (parsed.reply as RedisReply[]).map(String);
+          const name = args[0]?.toUpperCase();
+          if (name === "MULTI") {
+            queued = [];
+            socket.write(encode("OK"));
+          } else if (name === "EXEC") {
+            socket.write(
+              encode(
+                queued
+                  ? queued.map(execute)
+                  : new RedisError("ERR EXEC without MULTI"),
+              ),
+            );
+            queued = null;
+          } else if (name === "DISCARD") {
+            queued = null;
+            socket.write(encode("OK"));
+          } else if (queued) {
+            queued.push(args);
+            socket.write(encode("QUEUED"));
+          } else {
+            socket.write(encode(execute(args)));
+            if (name === "QUIT") socket.end();
+          }
+          parsed = buffer.length > 0 ? parseReply(buffer) : undefined;
+        }
+      } catch {
+        // Not a Redis client; drop it rather than guess where commands start
+        socket.destroy();
+      }
+    });
+    socket.on("error", () => {
+      socket.destroy();
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  const address = server.address() as net.AddressInfo;
+
+  return {
+    port: address.port,
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => {
+          resolve();
+        });
+        for (const socket of sockets) socket.destroy();
+      }),
+  };
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const fake = await startFakeRedis(Number(process.argv[2] ?? 6379));
+  console.log(`Fake Redis listening on 127.0.0.1:${String(fake.port)}`);
+}
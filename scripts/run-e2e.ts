@@ -4,9 +4,20 @@
  */
 
 import { spawn, type ChildProcess } from "node:child_process";
+import { generateKeyPairSync, randomBytes } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { access } from "node:fs/promises";
+import { createServer } from "node:http";
+import net from "node:net";
+import { tmpdir } from "node:os";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { sign } from "hono/jwt";
+import { generateApiKey, hashApiKey, saveApiKeys } from "../src/auth.ts";
+import type { Scope } from "../src/auth.ts";
+import { startFakeRedis } from "./fake-redis.ts";
+import type { FakeRedis } from "./fake-redis.ts";
+import { openWebSocket } from "./web-socket.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -28,14 +39,100 @@ const colors = {
   reset: "\x1b[0m",
 };
 
-let serverProcess: ChildProcess | null = null;
+interface TestServer {
+  process: ChildProcess;
+  port: number;
+  // Server output, for checks on what it logged
+  output: string[];
+  // Resolves with the exit code once the process ends
+  exited: Promise<number | null>;
+}
+
+// Stands in for an OpenTelemetry Collector; counts OTLP/HTTP exports by path
+const otlpExports = new Map<string, number>();
+const otlpReceiver = createServer((req, res) => {
+  req.resume();
+  req.on("end", () => {
+    otlpExports.set(req.url ?? "", (otlpExports.get(req.url ?? "") ?? 0) + 1);
+    res.writeHead(200, { "Content-Type": "application/x-protobuf" }).end();
+  });
+});
+
+// Every server still running, so cleanup can stop them all
+const servers = new Set<TestServer>();
+// Rate limits and quotas go through the Redis store, as they would with replicas
+let fakeRedis: FakeRedis | null = null;
+
+// Throwaway API keys: the suite runs as admin and checks scopes with a read-only key
+const keysDir = mkdtempSync(path.join(tmpdir(), "e2e-api-keys-"));
+const keysFile = path.join(keysDir, "api-keys.json");
+const adminKey = generateApiKey();
+const readonlyKey = generateApiKey();
+
+// Throwaway JWT signing key: the server trusts its public half through a JWKS file
+const jwksFile = path.join(keysDir, "jwks.json");
+const jwtIssuer = "https://issuer.e2e.test";
+const jwtAudience = "delineate-e2e";
+const jwtKeyPair = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const jwtKid = "e2e-signing-key";
+
+// Fixed for the run, so the suite can sign storage URLs of its own
+const storageSigningSecret = randomBytes(32).toString("hex");
+// Tier small enough for the suite to run out of its daily file quota
+const limitedTier = "e2e-limited";
+// Mock storage fixtures; IDs not listed behave as in the default catalog
+const catalogFile = path.join(keysDir, "catalog.json");
+const slowFileIds = [90000, 90001, 90002, 90003, 90004];
+// Every lookup fails, so these files end up in the dead-letter queue
+const failingFileIds = [91000, 91001];
+// Half of all lookups fail; with the default seed the first one or two
+// attempts fail and a retry succeeds
+const flakyFileIds = [92000, 92003];
+
+// Public half of the JWT signing key, as the server expects a JWKS
+function jwksDocument(): { keys: (JsonWebKey & { kid: string })[] } {
+  const publicKey = jwtKeyPair.publicKey.export({ format: "jwk" });
+  return { keys: [{ ...publicKey, kid: jwtKid, alg: "ES256", use: "sig" }] };
+}
+
+function writeCredentials(): void {
+  const createdAt = new Date().toISOString();
+  const record = (id: string, key: string, scopes: Scope[]) => ({
+    id,
+    name: `e2e ${id}`,
+    hash: hashApiKey(key),
+    scopes,
+    tier: null,
+    createdAt,
+    expiresAt: null,
+    revokedAt: null,
+  });
+  saveApiKeys(keysFile, [
+    record("admin", adminKey, ["admin"]),
+    record("readonly", readonlyKey, ["jobs:read"]),
+  ]);
+  writeFileSync(
+    catalogFile,
+    JSON.stringify({
+      files: [
+        ...slowFileIds.map((id) => ({ id, latencyMs: 1000 })),
+        ...failingFileIds.map((id) => ({ id, failureRate: 1 })),
+        ...flakyFileIds.map((id) => ({ id, failureRate: 0.5 })),
+      ],
+    }),
+  );
+  writeFileSync(jwksFile, JSON.stringify(jwksDocument()));
+}
 
 function cleanup(): void {
   console.log();
   console.log(`${colors.yellow}Cleaning up...${colors.reset}`);
-  if (serverProcess && !serverProcess.killed) {
-    serverProcess.kill("SIGTERM");
+  for (const server of servers) {
+    if (server.process.exitCode === null) server.process.kill("SIGTERM");
   }
+  void fakeRedis?.close();
+  otlpReceiver.close();
+  rmSync(keysDir, { recursive: true, force: true });
   console.log("Done.");
 }
 
@@ -49,10 +146,10 @@ process.on("SIGTERM", () => {
   process.exit(1);
 });
 
-async function waitForServer(maxAttempts = 30): Promise<boolean> {
+async function waitForServer(port = 3000, maxAttempts = 30): Promise<boolean> {
   for (let i = 0; i < maxAttempts; i++) {
     try {
-      const response = await fetch("http://localhost:3000/health");
+      const response = await fetch(`http://localhost:${String(port)}/health`);
       // Accept any response (200 or 503) - server is running
       if (response.status === 200 || response.status === 503) {
         return true;
@@ -65,8 +162,14 @@ async function waitForServer(maxAttempts = 30): Promise<boolean> {
   return false;
 }
 
-async function startServer(): Promise<ChildProcess> {
-  console.log(`${colors.yellow}Starting server...${colors.reset}`);
+// Starts the server with the suite's credentials and Redis; env overrides them
+async function startServer(
+  port = 3000,
+  env: NodeJS.ProcessEnv = {},
+): Promise<TestServer> {
+  console.log(
+    `${colors.yellow}Starting server on port ${String(port)}...${colors.reset}`,
+  );
 
   // Check if .env file exists, use --env-file only if it does
   const envFileArg =
@@ -81,24 +184,619 @@ async function startServer(): Promise<ChildProcess> {
     {
       cwd: projectDir,
       stdio: ["ignore", "pipe", "pipe"],
-      env: { ...process.env },
+      env: {
+        ...process.env,
+        PORT: String(port),
+        API_KEYS_FILE: keysFile,
+        JWT_JWKS_FILE: jwksFile,
+        JWT_ISSUER: jwtIssuer,
+        JWT_AUDIENCE: jwtAudience,
+        STORAGE_MOCK_CATALOG: catalogFile,
+        STORAGE_SIGNING_SECRET: storageSigningSecret,
+        OTEL_EXPORTER_OTLP_ENDPOINT: `http://127.0.0.1:${String((otlpReceiver.address() as net.AddressInfo).port)}`,
+        OTEL_METRIC_EXPORT_INTERVAL: "1000",
+        RATE_LIMIT_STORE: "redis",
+        RATE_LIMIT_REDIS_URL: `redis://127.0.0.1:${String(fakeRedis?.port)}`,
+        // The suite's webhook receiver listens on loopback; retry it quickly
+        WEBHOOK_ALLOWED_PRIVATE_HOSTS: "127.0.0.1",
+        WEBHOOK_BACKOFF_BASE_MS: "100",
+        WEBHOOK_BACKOFF_MAX_MS: "500",
+        RATE_LIMIT_TIERS: JSON.stringify({
+          [limitedTier]: { cheap: 100, expensive: 10, dailyFiles: 2 },
+        }),
+        ...env,
+      },
     },
   );
+  const label = port === 3000 ? "[server]" : `[server:${String(port)}]`;
+  const lines: string[] = [];
 
   server.stdout?.on("data", (data: Buffer) => {
     const output = data.toString().trim();
-    if (output) console.log(`[server] ${output}`);
+    if (output) {
+      lines.push(output);
+      console.log(`${label} ${output}`);
+    }
   });
 
   server.stderr?.on("data", (data: Buffer) => {
     const output = data.toString().trim();
     // Filter out experimental warning
     if (output && !output.includes("ExperimentalWarning")) {
-      console.error(`[server] ${output}`);
+      lines.push(output);
+      console.error(`${label} ${output}`);
     }
   });
 
-  return server;
+  const handle: TestServer = {
+    process: server,
+    port,
+    output: lines,
+    exited: new Promise((resolve) => {
+      server.on("exit", (code) => {
+        servers.delete(handle);
+        resolve(code);
+      });
+    }),
+  };
+  servers.add(handle);
+  return handle;
+}
+
+// SIGTERM the server; resolves with its exit code, or undefined if it is still
+// running after timeoutMs (it is then killed)
+async function stopServer(
+  server: TestServer,
+  timeoutMs = 10000,
+): Promise<number | null | undefined> {
+  server.process.kill("SIGTERM");
+  const timedOut = new Promise<undefined>((resolve) =>
+    setTimeout(resolve, timeoutMs),
+  );
+  const code = await Promise.race([server.exited, timedOut]);
+  if (server.process.exitCode === null && server.process.signalCode === null) {
+    server.process.kill("SIGKILL");
+  }
+  return code;
+}
+
+const lifecycle = { passed: 0, failed: 0 };
+
+function check(name: string, passed: boolean, details: string): void {
+  if (passed) {
+    console.log(`${colors.green}✓ PASS${colors.reset}: ${name}`);
+    lifecycle.passed++;
+  } else {
+    console.log(`${colors.red}✗ FAIL${colors.reset}: ${name}`);
+    console.log(`  ${colors.yellow}Got${colors.reset}: ${details}`);
+    lifecycle.failed++;
+  }
+}
+
+// Shutdown must not wait on event streams and WebSockets, which never end by
+// themselves while their job runs
+async function testShutdownWithOpenStreams(): Promise<void> {
+  const headers = { "X-API-Key": adminKey };
+  const server = await startServer(3002);
+  const baseUrl = `http://localhost:${String(server.port)}`;
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    return;
+  }
+
+  const initResponse = await fetch(`${baseUrl}/v1/download/initiate`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: slowFileIds }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+
+  const events = await fetch(`${baseUrl}/v1/download/jobs/${jobId}/events`, {
+    headers,
+  });
+  const eventsEnded = events.text().then(
+    () => true,
+    () => false,
+  );
+
+  const socket = await openWebSocket(
+    `ws://localhost:${String(server.port)}/v1/download/jobs/ws`,
+    headers,
+  );
+  const socketClosed = new Promise<number>((resolve) => {
+    socket.addEventListener("close", (event) => {
+      resolve(event.code);
+    });
+  });
+  socket.send(JSON.stringify({ type: "subscribe", jobIds: [jobId] }));
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  const startedAt = Date.now();
+  const code = await stopServer(server, 8000);
+  const elapsedMs = Date.now() - startedAt;
+  const output = server.output.join("\n");
+  check(
+    "Shutdown completes with an event stream and a WebSocket open",
+    code === 0 &&
+      output.includes("HTTP server closed") &&
+      output.includes("Job store closed") &&
+      output.includes("Graceful shutdown completed"),
+    `exit code ${String(code)} after ${String(elapsedMs)}ms`,
+  );
+  check(
+    "Shutdown ends the event stream and closes the WebSocket with 1001",
+    (await eventsEnded) && (await socketClosed) === 1001,
+    `socket close code ${String(await socketClosed)}`,
+  );
+}
+
+// Jobs are flushed to SQLite on shutdown and picked up by the next process
+async function testRestartResumesJobs(): Promise<void> {
+  const headers = { "X-API-Key": adminKey };
+  const env = {
+    JOB_STORE: "sqlite",
+    JOB_STORE_PATH: path.join(keysDir, "jobs.db"),
+  };
+  const baseUrl = "http://localhost:3003";
+  const first = await startServer(3003, env);
+  if (!(await waitForServer(first.port))) {
+    check("Lifecycle server starts", false, first.output.join("\n"));
+    return;
+  }
+
+  const initResponse = await fetch(`${baseUrl}/v1/download/initiate`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: slowFileIds }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+  // Let the first file finish, then interrupt the job mid-way
+  await new Promise((resolve) => setTimeout(resolve, 1500));
+
+  // Ctrl-C twice, or a signal sent to the whole process group
+  first.process.kill("SIGTERM");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  const code = await stopServer(first);
+  const output = first.output.join("\n");
+  check(
+    "A second shutdown signal does not run the shutdown again",
+    code === 0 &&
+      output.includes("Shutdown already in progress") &&
+      !output.includes("Shutdown step failed") &&
+      output.split("Job store closed").length === 2 &&
+      output.split("Graceful shutdown completed").length === 2,
+    `exit code ${String(code)}`,
+  );
+
+  const second = await startServer(3003, env);
+  if (!(await waitForServer(second.port))) {
+    check("Lifecycle server restarts", false, second.output.join("\n"));
+    return;
+  }
+  let job: { status?: string; files?: { status: string }[] } = {};
+  for (let i = 0; i < 100 && job.status !== "completed"; i++) {
+    const response = await fetch(`${baseUrl}/v1/download/status/${jobId}`, {
+      headers,
+    });
+    job = (await response.json()) as typeof job;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  check(
+    "A job interrupted by shutdown resumes after a restart",
+    job.status === "completed" &&
+      job.files?.length === slowFileIds.length &&
+      job.files.every((file) => file.status === "completed") &&
+      second.output.join("\n").includes("Resuming unfinished jobs"),
+    JSON.stringify(job),
+  );
+  await stopServer(second);
+}
+
+// A callback still retrying at shutdown is sent again by the next process
+async function testRestartResumesWebhooks(): Promise<void> {
+  const headers = { "X-API-Key": adminKey };
+  let receiverUp = false;
+  const received: { status: number; deliveryId: string }[] = [];
+  const receiver = createServer((req, res) => {
+    req.resume();
+    const status = receiverUp ? 200 : 503;
+    received.push({ status, deliveryId: String(req.headers["x-webhook-id"]) });
+    res.writeHead(status).end();
+  });
+  await new Promise<void>((resolve) => {
+    receiver.listen(0, "127.0.0.1", resolve);
+  });
+  const env = {
+    JOB_STORE: "sqlite",
+    JOB_STORE_PATH: path.join(keysDir, "webhooks.db"),
+    // Long enough that the first process is still backing off when it stops
+    WEBHOOK_MAX_ATTEMPTS: "20",
+    WEBHOOK_BACKOFF_BASE_MS: "10000",
+    WEBHOOK_BACKOFF_MAX_MS: "10000",
+  };
+  const baseUrl = "http://localhost:3009";
+  const first = await startServer(3009, env);
+  if (!(await waitForServer(first.port))) {
+    check("Lifecycle server starts", false, first.output.join("\n"));
+    receiver.close();
+    return;
+  }
+
+  const initResponse = await fetch(`${baseUrl}/v1/download/initiate`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      file_ids: [70000],
+      callback_url: `http://127.0.0.1:${String((receiver.address() as net.AddressInfo).port)}/hooks`,
+    }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+  for (let i = 0; i < 100 && received.length === 0; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  await stopServer(first);
+  const attemptsBeforeRestart = received.length;
+
+  receiverUp = true;
+  const second = await startServer(3009, env);
+  if (!(await waitForServer(second.port))) {
+    check("Lifecycle server restarts", false, second.output.join("\n"));
+    receiver.close();
+    return;
+  }
+  let job: { webhook?: { status: string } | null } = {};
+  for (let i = 0; i < 100 && job.webhook?.status !== "delivered"; i++) {
+    const response = await fetch(`${baseUrl}/v1/download/status/${jobId}`, {
+      headers,
+    });
+    job = (await response.json()) as typeof job;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  check(
+    "A webhook interrupted by shutdown is delivered after a restart",
+    attemptsBeforeRestart > 0 &&
+      first.output.join("\n").includes("Webhook interrupted by shutdown") &&
+      job.webhook?.status === "delivered" &&
+      received.at(-1)?.status === 200 &&
+      received.every((attempt) => attempt.deliveryId === jobId),
+    `${JSON.stringify(received)}, webhook ${JSON.stringify(job.webhook)}`,
+  );
+  await stopServer(second);
+  receiver.close();
+}
+
+// A bundle still building at shutdown is built by the next process
+async function testRestartResumesBundles(): Promise<void> {
+  const headers = { "X-API-Key": adminKey };
+  const env = {
+    JOB_STORE: "sqlite",
+    JOB_STORE_PATH: path.join(keysDir, "bundles.db"),
+  };
+  const baseUrl = "http://localhost:3010";
+  type BundledJob = { status?: string; bundle?: { status: string } | null };
+  const poll = async (done: (job: BundledJob) => boolean) => {
+    let job: BundledJob = {};
+    for (let i = 0; i < 150 && !done(job); i++) {
+      const response = await fetch(`${baseUrl}/v1/download/status/${jobId}`, {
+        headers,
+      });
+      job = (await response.json()) as BundledJob;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    return job;
+  };
+
+  const first = await startServer(3010, env);
+  if (!(await waitForServer(first.port))) {
+    check("Lifecycle server starts", false, first.output.join("\n"));
+    return;
+  }
+  // Slow files keep the archive building for a couple of seconds
+  const initResponse = await fetch(`${baseUrl}/v1/download/initiate`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: slowFileIds.slice(0, 3), bundle: true }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+  const building = await poll((job) => job.bundle?.status === "building");
+  await stopServer(first);
+
+  const second = await startServer(3010, env);
+  if (!(await waitForServer(second.port))) {
+    check("Lifecycle server restarts", false, second.output.join("\n"));
+    return;
+  }
+  const job = await poll(
+    (current) =>
+      current.bundle?.status === "ready" || current.bundle?.status === "failed",
+  );
+  check(
+    "A bundle interrupted by shutdown is built after a restart",
+    building.bundle?.status === "building" &&
+      first.output.join("\n").includes("Bundle interrupted by shutdown") &&
+      job.status === "completed" &&
+      job.bundle?.status === "ready",
+    `before restart ${JSON.stringify(building.bundle)}, after ${JSON.stringify(job)}`,
+  );
+  await stopServer(second);
+}
+
+// The memory driver holds bundles in RAM, so archives over its limit fail
+async function testBundleSizeLimit(): Promise<void> {
+  const headers = { "X-API-Key": adminKey };
+  const server = await startServer(3004, { STORAGE_MEMORY_MAX_OBJECT_MB: "1" });
+  const baseUrl = `http://localhost:${String(server.port)}`;
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    return;
+  }
+
+  const initResponse = await fetch(`${baseUrl}/v1/download/initiate`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000, 70007], bundle: true }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+  let job: { bundle?: { status: string; error: string | null } | null } = {};
+  for (let i = 0; i < 100; i++) {
+    const response = await fetch(`${baseUrl}/v1/download/status/${jobId}`, {
+      headers,
+    });
+    job = (await response.json()) as typeof job;
+    if (job.bundle?.status === "ready" || job.bundle?.status === "failed") {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  check(
+    "Bundles over the memory storage limit fail instead of filling memory",
+    job.bundle?.status === "failed" &&
+      (job.bundle.error ?? "").includes("memory storage limit"),
+    JSON.stringify(job.bundle),
+  );
+  await stopServer(server);
+}
+
+// Rejected credentials are throttled per address before they are verified
+async function testCredentialThrottling(): Promise<void> {
+  // Counters of its own; the main suite's rejections share the Redis counters
+  const server = await startServer(3005, {
+    AUTH_FAILURE_LIMIT: "3",
+    RATE_LIMIT_STORE: "memory",
+  });
+  const baseUrl = `http://localhost:${String(server.port)}`;
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    return;
+  }
+
+  const statuses: number[] = [];
+  const attempts: Record<string, string>[] = [
+    { "X-API-Key": "invalid-key" },
+    { Authorization: "Bearer not.a.jwt" },
+    { "X-API-Key": "invalid-key" },
+    { Authorization: "Bearer not.a.jwt" },
+  ];
+  for (const headers of attempts) {
+    const response = await fetch(`${baseUrl}/v1/quota`, { headers });
+    statuses.push(response.status);
+  }
+  const blocked = await fetch(`${baseUrl}/v1/quota`, {
+    headers: { "X-API-Key": adminKey },
+  });
+  const anonymous = await fetch(`${baseUrl}/v1/quota`);
+  const rejections =
+    server.output.join("\n").split("Rejected credential").length - 1;
+  check(
+    "Rejected credentials past the limit get 429 without being verified",
+    JSON.stringify(statuses) === JSON.stringify([401, 401, 401, 429]) &&
+      blocked.status === 429 &&
+      Number(blocked.headers.get("retry-after")) > 0 &&
+      anonymous.status === 200 &&
+      rejections === 3,
+    `${JSON.stringify(statuses)}, valid key ${String(blocked.status)}, anonymous ${String(anonymous.status)}, ${String(rejections)} rejections logged`,
+  );
+  await stopServer(server);
+}
+
+// A JWKS URL that stops answering must not turn tokens into server errors or
+// make every request wait on the issuer
+async function testJwksOutage(): Promise<void> {
+  let jwksUp = false;
+  let jwksFetches = 0;
+  const jwks = createServer((_req, res) => {
+    jwksFetches++;
+    if (jwksUp) {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(jwksDocument()));
+    } else {
+      res.writeHead(502).end();
+    }
+  });
+  await new Promise<void>((resolve) => {
+    jwks.listen(0, "127.0.0.1", resolve);
+  });
+  const env = {
+    JWT_JWKS_FILE: "",
+    JWT_JWKS_URL: `http://127.0.0.1:${String((jwks.address() as net.AddressInfo).port)}/jwks.json`,
+    JWT_JWKS_CACHE_TTL_MS: "1000",
+    RATE_LIMIT_STORE: "memory",
+  };
+  const privateKey = jwtKeyPair.privateKey.export({ format: "jwk" });
+  const quota = async (kid = jwtKid): Promise<number> => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = await sign(
+      { iss: jwtIssuer, aud: jwtAudience, sub: "e2e-jwks", exp: now + 300 },
+      { ...privateKey, kid, alg: "ES256" } as JsonWebKey,
+      "ES256",
+    );
+    const response = await fetch(
+      `http://localhost:${String(server.port)}/v1/quota`,
+      { headers: { Authorization: `Bearer ${token}` } },
+    );
+    await response.arrayBuffer();
+    return response.status;
+  };
+
+  let server = await startServer(3007, env);
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    jwks.close();
+    return;
+  }
+  const unreachable = [await quota(), await quota()];
+  check(
+    "Tokens get 503 while the JWKS URL has never loaded, with one fetch per interval",
+    JSON.stringify(unreachable) === JSON.stringify([503, 503]) &&
+      jwksFetches === 1,
+    `${JSON.stringify(unreachable)}, ${String(jwksFetches)} fetches`,
+  );
+  await stopServer(server);
+
+  jwksUp = true;
+  jwksFetches = 0;
+  server = await startServer(3008, env);
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    jwks.close();
+    return;
+  }
+  const statuses = [await quota()];
+  jwksUp = false;
+  // Past the cache TTL, so the next request refetches and fails
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  statuses.push(await quota(), await quota("rotated-key"), await quota());
+  check(
+    "Cached keys stay in use after a failed JWKS refresh, and unknown keys get 401",
+    JSON.stringify(statuses) === JSON.stringify([200, 200, 401, 200]) &&
+      jwksFetches === 2,
+    `${JSON.stringify(statuses)}, ${String(jwksFetches)} fetches`,
+  );
+  await stopServer(server);
+  jwks.close();
+}
+
+// Without credentials configured, routes are open but admin ones are not,
+// and anonymous callers can start jobs of any size the API accepts
+async function testWithoutAuthentication(): Promise<void> {
+  const server = await startServer(3006, {
+    API_KEYS_FILE: "",
+    JWT_JWKS_FILE: "",
+  });
+  const baseUrl = `http://localhost:${String(server.port)}`;
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    return;
+  }
+
+  const quota = await fetch(`${baseUrl}/v1/quota`);
+  const list = await fetch(`${baseUrl}/v1/admin/dead-letters`);
+  const replay = await fetch(`${baseUrl}/v1/admin/dead-letters/replay`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: "{}",
+  });
+  check(
+    "Admin routes return 403 when authentication is disabled",
+    quota.status === 200 && list.status === 403 && replay.status === 403,
+    `quota ${String(quota.status)}, list ${String(list.status)}, replay ${String(replay.status)}`,
+  );
+
+  const initResponse = await fetch(`${baseUrl}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      file_ids: Array.from({ length: 1000 }, (_, i) => 10000 + i),
+    }),
+  });
+  await initResponse.arrayBuffer();
+  check(
+    "Anonymous jobs of 1000 files are accepted when authentication is disabled",
+    initResponse.status === 200,
+    String(initResponse.status),
+  );
+  await stopServer(server);
+}
+
+// Behaviour that needs a server of its own: misconfiguration and restarts
+async function runLifecycleTests(): Promise<number> {
+  console.log();
+  console.log(`${colors.yellow}=== Server Lifecycle ===${colors.reset}`);
+  const headers = { "X-API-Key": adminKey };
+
+  // Answers like an HTTP server, as a mistyped RATE_LIMIT_REDIS_URL would
+  const notRedis = net.createServer((socket) => {
+    socket.on("data", () => {
+      socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    });
+    socket.on("error", () => undefined);
+  });
+  await new Promise<void>((resolve) => {
+    notRedis.listen(0, "127.0.0.1", resolve);
+  });
+  const notRedisPort = (notRedis.address() as net.AddressInfo).port;
+
+  const server = await startServer(3001, {
+    RATE_LIMIT_REDIS_URL: `redis://127.0.0.1:${String(notRedisPort)}`,
+  });
+  const baseUrl = `http://localhost:${String(server.port)}`;
+  if (!(await waitForServer(server.port))) {
+    check("Lifecycle server starts", false, server.output.join("\n"));
+    notRedis.close();
+    return 1;
+  }
+
+  const statuses: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    const response = await fetch(`${baseUrl}/v1/quota`, { headers });
+    statuses.push(response.status);
+  }
+  check(
+    "Requests succeed when the rate-limit store is not Redis",
+    statuses.every((status) => status === 200) &&
+      server.process.exitCode === null,
+    `${JSON.stringify(statuses)}, exit code ${String(server.process.exitCode)}`,
+  );
+
+  const deep = await fetch(`${baseUrl}/health/deep`);
+  const deepData = (await deep.json()) as {
+    status?: string;
+    checks?: { rateLimitStore?: { status?: string } };
+  };
+  check(
+    "Deep health reports the failing rate-limit store as degraded",
+    deep.status === 200 &&
+      deepData.status === "degraded" &&
+      deepData.checks?.rateLimitStore?.status === "error",
+    `${String(deep.status)} ${JSON.stringify(deepData)}`,
+  );
+
+  await stopServer(server);
+  notRedis.close();
+
+  await testShutdownWithOpenStreams();
+  await testRestartResumesJobs();
+  await testRestartResumesWebhooks();
+  await testRestartResumesBundles();
+  await testBundleSizeLimit();
+  await testCredentialThrottling();
+  await testWithoutAuthentication();
+  await testJwksOutage();
+
+  // Every server so far exported to the runner's receiver, and the lifecycle
+  // servers flushed on shutdown
+  check(
+    "Traces, metrics and logs reach the OTLP endpoint",
+    ["/v1/traces", "/v1/metrics", "/v1/logs"].every(
+      (signal) => (otlpExports.get(signal) ?? 0) > 0,
+    ),
+    JSON.stringify(Object.fromEntries(otlpExports)),
+  );
+
+  console.log(
+    `Lifecycle: ${String(lifecycle.passed)} passed, ${String(lifecycle.failed)} failed`,
+  );
+  return lifecycle.failed;
 }
 
 async function runTests(): Promise<number> {
@@ -113,6 +811,22 @@ async function runTests(): Promise<number> {
       {
         cwd: projectDir,
         stdio: "inherit",
+        env: {
+          ...process.env,
+          E2E_API_KEY: adminKey,
+          E2E_READONLY_API_KEY: readonlyKey,
+          E2E_JWT_PRIVATE_KEY: JSON.stringify({
+            ...jwtKeyPair.privateKey.export({ format: "jwk" }),
+            kid: jwtKid,
+          }),
+          E2E_JWT_ISSUER: jwtIssuer,
+          E2E_JWT_AUDIENCE: jwtAudience,
+          E2E_LIMITED_TIER: limitedTier,
+          E2E_SLOW_FILE_IDS: slowFileIds.join(","),
+          E2E_FAILING_FILE_IDS: failingFileIds.join(","),
+          E2E_FLAKY_FILE_IDS: flakyFileIds.join(","),
+          E2E_STORAGE_SIGNING_SECRET: storageSigningSecret,
+        },
       },
     );
 
@@ -125,11 +839,16 @@ async function runTests(): Promise<number> {
 async function main(): Promise<void> {
   try {
     // Start server
-    serverProcess = await startServer();
+    writeCredentials();
+    fakeRedis = await startFakeRedis();
+    await new Promise<void>((resolve) => {
+      otlpReceiver.listen(0, "127.0.0.1", resolve);
+    });
+    const server = await startServer();
 
     // Wait for server to be ready
     console.log(
-      `Waiting for server to start (PID: ${String(serverProcess.pid)})...`,
+      `Waiting for server to start (PID: ${String(server.process.pid)})...`,
     );
     const serverReady = await waitForServer();
 
@@ -145,10 +864,11 @@ async function main(): Promise<void> {
 
     // Run tests
     const testExitCode = await runTests();
+    const lifecycleFailures = await runLifecycleTests();
 
     // Cleanup and exit
     cleanup();
-    process.exit(testExitCode);
+    process.exit(testExitCode || (lifecycleFailures > 0 ? 1 : 0));
   } catch (error) {
     console.error("Error running tests:", error);
     cleanup();
@@ -0,0 +1,17 @@
+/**
+ * WebSocket client for the e2e scripts, which authenticate with headers
+ */
+
+// Node's WebSocket (undici) takes headers in a second argument that the DOM
+// typings do not declare, so it is constructed through Reflect
+export async function openWebSocket(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<WebSocket> {
+  const socket: WebSocket = Reflect.construct(WebSocket, [url, { headers }]);
+  await new Promise((resolve, reject) => {
+    socket.addEventListener("open", resolve);
+    socket.addEventListener("error", reject);
+  });
+  return socket;
+}
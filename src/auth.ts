@@ -0,0 +1,115 @@
+// Authentication - scopes, principals, and API keys hashed in a local JSON file
+import { z } from "zod";
+import { createHash, randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+export const ScopeSchema = z.enum([
+  "download:check",
+  "download:initiate",
+  "jobs:read",
+  // Grants every other scope as well
+  "admin",
+]);
+
+export type Scope = z.infer<typeof ScopeSchema>;
+
+const ApiKeyRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // SHA-256 of the key, hex encoded; the key itself is only shown on creation
+  hash: z.string().regex(/^[0-9a-f]{64}$/),
+  scopes: z.array(ScopeSchema).min(1),
+  // Rate-limit tier; null uses the default tier
+  tier: z.string().min(1).nullable().default(null),
+  createdAt: z.iso.datetime(),
+  expiresAt: z.iso.datetime().nullable().default(null),
+  revokedAt: z.iso.datetime().nullable().default(null),
+});
+
+const ApiKeyFileSchema = z.object({
+  keys: z.array(ApiKeyRecordSchema).default([]),
+});
+
+export type ApiKeyRecord = z.infer<typeof ApiKeyRecordSchema>;
+
+// Who a request was authenticated as
+export interface Principal {
+  type: "api-key" | "jwt";
+  // Key ID or token subject; unique per type
+  subject: string;
+  name: string;
+  scopes: Scope[];
+  // Rate-limit tier, or null for the default tier
+  tier: string | null;
+}
+
+// Recognisable in logs and secret scanners
+const API_KEY_PREFIX = "dlk_";
+
+export const generateApiKey = (): string =>
+  `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+// Tells API keys from JWTs sent in the same Authorization header
+export const isApiKey = (value: string): boolean =>
+  value.startsWith(API_KEY_PREFIX);
+
+export const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+export const hasScope = (principal: Principal, scope: Scope): boolean =>
+  principal.scopes.includes("admin") || principal.scopes.includes(scope);
+
+// Load a key file; invalid files fail startup with the zod issues
+export const loadApiKeys = (filename: string): ApiKeyRecord[] => {
+  const result = ApiKeyFileSchema.safeParse(
+    JSON.parse(readFileSync(filename, "utf8")),
+  );
+  if (!result.success) {
+    throw new Error(
+      `Invalid API key file ${filename}: ${z.prettifyError(result.error)}`,
+    );
+  }
+  return result.data.keys;
+};
+
+// Replace the key file in one rename, so the server never reads a partial file
+export const saveApiKeys = (filename: string, keys: ApiKeyRecord[]): void => {
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const temporary = `${filename}.${String(process.pid)}.tmp`;
+  writeFileSync(temporary, `${JSON.stringify({ keys }, null, 2)}\n`, {
+    mode: 0o600,
+  });
+  renameSync(temporary, filename);
+};
+
+export interface ApiKeyVerifier {
+  // The key's principal, or undefined when it is unknown, expired or revoked
+  verify: (key: string) => Principal | undefined;
+  size: number;
+}
+
+// Keys are looked up by hash, so comparison time reveals nothing about the key
+export const createApiKeyVerifier = (
+  records: ApiKeyRecord[],
+): ApiKeyVerifier => {
+  const byHash = new Map(records.map((record) => [record.hash, record]));
+
+  return {
+    verify: (key) => {
+      const record = byHash.get(hashApiKey(key));
+      if (!record) return undefined;
+      const expired =
+        record.expiresAt !== null && Date.parse(record.expiresAt) <= Date.now();
+      if (record.revokedAt !== null || expired) return undefined;
+      return {
+        type: "api-key",
+        subject: record.id,
+        name: record.name,
+        scopes: record.scopes,
+        tier: record.tier,
+      };
+    },
+    size: byHash.size,
+  };
+};
@@ -0,0 +1,134 @@
+// Job bundles - streams a job's files into one ZIP archive written back to storage
+import { ZipArchive } from "archiver";
+import { once } from "node:events";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import { retry } from "./retry.ts";
+import type { RetryOptions } from "./retry.ts";
+import type { StorageDriver } from "./storage.ts";
+
+export interface BundlerOptions {
+  storage: StorageDriver;
+  // Bundles built at the same time; the rest wait for a free slot
+  concurrency: number;
+  // Applied when opening each source object
+  retry: Omit<RetryOptions, "signal">;
+}
+
+export interface BuiltBundle {
+  s3Key: string;
+  // Archive size in bytes
+  size: number;
+}
+
+// The bundler was stopped before the build could finish; the build is not
+// at fault and can run again
+export class BundleInterruptedError extends Error {
+  constructor(cause: unknown) {
+    super("Bundling interrupted by shutdown", { cause });
+    this.name = "BundleInterruptedError";
+  }
+}
+
+export interface Bundler {
+  // Archive the source objects under their file names into bundleKey;
+  // rejects with BundleInterruptedError when stop() cuts it short
+  build: (bundleKey: string, sourceKeys: string[]) => Promise<BuiltBundle>;
+  // Abort running and waiting builds, then wait for them to settle
+  stop: () => Promise<void>;
+}
+
+export const createBundler = (options: BundlerOptions): Bundler => {
+  const controller = new AbortController();
+  const inFlight = new Set<Promise<BuiltBundle>>();
+  const waiting: (() => void)[] = [];
+  let running = 0;
+
+  const acquire = async (): Promise<void> => {
+    if (running < options.concurrency) {
+      running++;
+      return;
+    }
+    // The releasing build hands its slot over, so running stays unchanged
+    await new Promise<void>((resolve) => waiting.push(resolve));
+    controller.signal.throwIfAborted();
+  };
+
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) next();
+    else running--;
+  };
+
+  const archive = async (
+    bundleKey: string,
+    sourceKeys: string[],
+  ): Promise<BuiltBundle> => {
+    const { signal } = controller;
+    // Entries are already compressed archives, so store them as-is
+    const zip = new ZipArchive({ store: true });
+    // archiver streams are not node:stream instances, which the drivers expect
+    const body = zip.pipe(new PassThrough());
+    // Aborting on failure makes the driver discard the partial upload
+    const uploadController = new AbortController();
+    const uploaded = options.storage.put(bundleKey, body, {
+      contentType: "application/zip",
+      signal: AbortSignal.any([signal, uploadController.signal]),
+    });
+    // Awaited further down; keep an early failure from becoming unhandled meanwhile
+    uploaded.catch(() => undefined);
+
+    try {
+      for (const sourceKey of sourceKeys) {
+        signal.throwIfAborted();
+        const { value: object } = await retry(
+          () => options.storage.get(sourceKey, { signal }),
+          { ...options.retry, signal },
+        );
+        if (object.status !== "ok") {
+          throw new Error(`Object ${sourceKey} does not exist`);
+        }
+
+        // Open one object at a time so a large job holds a single storage stream;
+        // a failed upload stops the archive from draining, so race against it
+        const added = once(zip, "entry", { signal });
+        zip.append(object.body, {
+          name: path.posix.basename(sourceKey),
+        });
+        await Promise.race([added, uploaded]);
+      }
+      await zip.finalize();
+      await uploaded;
+      return { s3Key: bundleKey, size: zip.pointer() };
+    } catch (err) {
+      zip.abort();
+      uploadController.abort(err);
+      await uploaded.catch(() => undefined);
+      throw err;
+    }
+  };
+
+  const build: Bundler["build"] = (bundleKey, sourceKeys) => {
+    const bundle = acquire()
+      .then(() => archive(bundleKey, sourceKeys).finally(release))
+      .catch((err: unknown) => {
+        // Whatever failed, it was most likely the abort
+        if (controller.signal.aborted) throw new BundleInterruptedError(err);
+        throw err;
+      })
+      .finally(() => {
+        inFlight.delete(bundle);
+      });
+    inFlight.add(bundle);
+    return bundle;
+  };
+
+  const stop = async (): Promise<void> => {
+    controller.abort();
+    // Wake waiting builds so they observe the abort
+    for (const next of waiting.splice(0)) next();
+    await Promise.allSettled(inFlight);
+  };
+
+  return { build, stop };
+};
@@ -0,0 +1,70 @@
+// Client IP resolution - forwarded headers are only believed from trusted proxies
+import { BlockList, isIP } from "node:net";
+
+// Sockets on dual-stack servers report IPv4 peers as ::ffff:a.b.c.d
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+const normalize = (address: string): string =>
+  IPV4_MAPPED.exec(address)?.[1] ?? address;
+
+const family = (address: string): "ipv4" | "ipv6" | undefined => {
+  const version = isIP(address);
+  return version === 4 ? "ipv4" : version === 6 ? "ipv6" : undefined;
+};
+
+// Parse CIDR ranges and bare addresses; invalid entries fail startup
+export const parseTrustedProxies = (entries: string[]): BlockList => {
+  const trusted = new BlockList();
+  for (const entry of entries) {
+    const slash = entry.indexOf("/");
+    const address = slash === -1 ? entry : entry.slice(0, slash);
+    const prefix = slash === -1 ? undefined : entry.slice(slash + 1);
+    const bits = prefix === undefined ? undefined : Number(prefix);
+    const type = family(address);
+    const maxBits = type === "ipv4" ? 32 : 128;
+    if (
+      !type ||
+      (prefix !== undefined && !/^\d+$/.test(prefix)) ||
+      (bits !== undefined && bits > maxBits)
+    ) {
+      throw new Error(`Invalid trusted proxy ${entry}: expected an IP or CIDR`);
+    }
+    if (bits === undefined) {
+      trusted.addAddress(address, type);
+    } else {
+      trusted.addSubnet(address, bits, type);
+    }
+  }
+  return trusted;
+};
+
+export type ClientIpResolver = (
+  socketAddress: string | undefined,
+  forwardedFor: string | undefined,
+) => string | undefined;
+
+// Walk X-Forwarded-For from the right, skipping trusted proxies; the first
+// untrusted hop is the client. Hops left of it were written by the client
+// and may be forged, so they are never used.
+export const createClientIpResolver = (
+  trusted: BlockList,
+): ClientIpResolver => {
+  const isTrusted = (address: string): boolean => {
+    const type = family(address);
+    return type !== undefined && trusted.check(address, type);
+  };
+
+  return (socketAddress, forwardedFor) => {
+    if (socketAddress === undefined) return undefined;
+    let client = normalize(socketAddress);
+    if (!isTrusted(client) || !forwardedFor) return client;
+    const hops = forwardedFor.split(",").map((hop) => normalize(hop.trim()));
+    for (const hop of hops.reverse()) {
+      // A malformed hop cannot be attributed; stop at the last proxy we trust
+      if (!family(hop)) return client;
+      client = hop;
+      if (!isTrusted(hop)) return client;
+    }
+    return client;
+  };
+};
@@ -0,0 +1,206 @@
+// Dead-letter queue - files whose lookups failed permanently inside a job
+import { DatabaseSync } from "node:sqlite";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+
+export type DeadLetterStatus = "pending" | "replayed";
+
+export interface DeadLetter {
+  id: string;
+  // Job the file failed in
+  jobId: string;
+  file_id: number;
+  // Last error seen before retries ran out
+  error: string;
+  attempts: number;
+  // Trace of the request that created the job
+  traceId: string | null;
+  status: DeadLetterStatus;
+  failedAt: string;
+  replayedAt: string | null;
+  replayJobId: string | null;
+}
+
+export interface DeadLetterQuery {
+  status?: DeadLetterStatus;
+  limit: number;
+  offset: number;
+}
+
+export interface DeadLetterStore {
+  add: (entry: DeadLetter) => Promise<void>;
+  get: (id: string) => Promise<DeadLetter | undefined>;
+  // Newest first, with the number of entries matching the status filter
+  list: (
+    query: DeadLetterQuery,
+  ) => Promise<{ items: DeadLetter[]; total: number }>;
+  // Mark pending entries as replayed by a job; returns the entries that changed.
+  // Atomic, so of two concurrent calls for the same entry only one changes it
+  markReplayed: (ids: string[], replayJobId: string) => Promise<DeadLetter[]>;
+  // Delete entries that failed before the cutoff; resolves with how many
+  prune: (before: Date) => Promise<number>;
+  // Later calls do nothing
+  close: () => Promise<void>;
+}
+
+const replayed = (entry: DeadLetter, replayJobId: string): DeadLetter => ({
+  ...entry,
+  status: "replayed",
+  replayedAt: new Date().toISOString(),
+  replayJobId,
+});
+
+// In-memory store - entries are lost on restart
+export const createMemoryDeadLetterStore = (): DeadLetterStore => {
+  const entries = new Map<string, DeadLetter>();
+
+  return {
+    add: (entry) => {
+      entries.set(entry.id, structuredClone(entry));
+      return Promise.resolve();
+    },
+    get: (id) => {
+      const entry = entries.get(id);
+      return Promise.resolve(entry && structuredClone(entry));
+    },
+    list: ({ status, limit, offset }) => {
+      const matching = [...entries.values()]
+        .filter((entry) => status === undefined || entry.status === status)
+        .sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+      return Promise.resolve({
+        items: matching
+          .slice(offset, offset + limit)
+          .map((entry) => structuredClone(entry)),
+        total: matching.length,
+      });
+    },
+    markReplayed: (ids, replayJobId) => {
+      const changed: DeadLetter[] = [];
+      for (const id of ids) {
+        const entry = entries.get(id);
+        if (entry?.status !== "pending") continue;
+        const updated = replayed(entry, replayJobId);
+        entries.set(id, updated);
+        changed.push(structuredClone(updated));
+      }
+      return Promise.resolve(changed);
+    },
+    prune: (before) => {
+      const cutoff = before.toISOString();
+      let pruned = 0;
+      for (const [id, entry] of entries) {
+        if (entry.failedAt < cutoff) {
+          entries.delete(id);
+          pruned++;
+        }
+      }
+      return Promise.resolve(pruned);
+    },
+    close: () => {
+      entries.clear();
+      return Promise.resolve();
+    },
+  };
+};
+
+export interface SqliteDeadLetterStoreOptions {
+  // Database file path; may be shared with the job store
+  filename: string;
+}
+
+// SQLite file store - entries survive restarts so an outage can be replayed later
+export const createSqliteDeadLetterStore = (
+  options: SqliteDeadLetterStoreOptions,
+): DeadLetterStore => {
+  mkdirSync(path.dirname(options.filename), { recursive: true });
+  const db = new DatabaseSync(options.filename);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA synchronous = NORMAL;
+    CREATE TABLE IF NOT EXISTS dead_letters (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      failed_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS dead_letters_status_failed_at ON dead_letters (status, failed_at);
+    CREATE INDEX IF NOT EXISTS dead_letters_failed_at ON dead_letters (failed_at);
+  `);
+
+  const insertEntry = db.prepare(
+    "INSERT INTO dead_letters (id, status, failed_at, data) VALUES (?, ?, ?, ?)",
+  );
+  const selectEntry = db.prepare("SELECT data FROM dead_letters WHERE id = ?");
+  const selectPage = db.prepare(
+    "SELECT data FROM dead_letters WHERE ?1 IS NULL OR status = ?1 ORDER BY failed_at DESC LIMIT ?2 OFFSET ?3",
+  );
+  const countEntries = db.prepare(
+    "SELECT COUNT(*) AS total FROM dead_letters WHERE ?1 IS NULL OR status = ?1",
+  );
+  const updateEntry = db.prepare(
+    "UPDATE dead_letters SET status = ?, data = ? WHERE id = ?",
+  );
+  const deleteBefore = db.prepare(
+    "DELETE FROM dead_letters WHERE failed_at < ?",
+  );
+
+  const parse = (
+    row: Record<string, unknown> | undefined,
+  ): DeadLetter | undefined =>
+    row ? (JSON.parse(String(row.data)) as DeadLetter) : undefined;
+
+  // node:sqlite is synchronous; surface its errors as rejections
+  const settle = <T>(operation: () => T): Promise<T> => {
+    try {
+      return Promise.resolve(operation());
+    } catch (err) {
+      return Promise.reject(err as Error);
+    }
+  };
+
+  return {
+    add: (entry) =>
+      settle(() => {
+        insertEntry.run(
+          entry.id,
+          entry.status,
+          entry.failedAt,
+          JSON.stringify(entry),
+        );
+      }),
+    get: (id) => settle(() => parse(selectEntry.get(id))),
+    list: ({ status, limit, offset }) =>
+      settle(() => ({
+        items: selectPage
+          .all(status ?? null, limit, offset)
+          .map(parse)
+          .filter((entry) => entry !== undefined),
+        total: Number(countEntries.get(status ?? null)?.total ?? 0),
+      })),
+    markReplayed: (ids, replayJobId) =>
+      settle(() => {
+        const changed: DeadLetter[] = [];
+        db.exec("BEGIN");
+        try {
+          for (const id of ids) {
+            const entry = parse(selectEntry.get(id));
+            if (entry?.status !== "pending") continue;
+            const updated = replayed(entry, replayJobId);
+            updateEntry.run(updated.status, JSON.stringify(updated), id);
+            changed.push(updated);
+          }
+          db.exec("COMMIT");
+        } catch (err) {
+          db.exec("ROLLBACK");
+          throw err;
+        }
+        return changed;
+      }),
+    prune: (before) =>
+      settle(() => Number(deleteBefore.run(before.toISOString()).changes)),
+    close: () =>
+      settle(() => {
+        if (db.isOpen) db.close();
+      }),
+  };
+};
@@ -0,0 +1,78 @@
+// Health checks - timed dependency probes that remember their last failure
+
+// Resolves when the dependency answers; should give up once the signal aborts
+export type HealthProbe = (signal: AbortSignal) => Promise<void>;
+
+export interface HealthFailure {
+  message: string;
+  at: string;
+}
+
+export interface HealthCheckResult {
+  status: "ok" | "error";
+  latencyMs: number;
+  // Why this run failed, or null when it passed
+  error: string | null;
+  // Most recent failure of any run, kept after the dependency recovers
+  lastError: HealthFailure | null;
+}
+
+export interface HealthCheckerOptions<Name extends string> {
+  probes: Record<Name, HealthProbe>;
+  // Probes still pending after this long count as failed
+  timeoutMs: number;
+}
+
+export interface HealthChecker<Name extends string> {
+  check: (name: Name) => Promise<HealthCheckResult>;
+  // Runs the probes concurrently
+  checkAll: (names?: Name[]) => Promise<Record<Name, HealthCheckResult>>;
+}
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+export const createHealthChecker = <Name extends string>(
+  options: HealthCheckerOptions<Name>,
+): HealthChecker<Name> => {
+  const lastErrors = new Map<Name, HealthFailure>();
+
+  const check = async (name: Name): Promise<HealthCheckResult> => {
+    const signal = AbortSignal.timeout(options.timeoutMs);
+    // Probes that ignore the signal must not hold the response hostage
+    const timedOut = new Promise<never>((_, reject) => {
+      signal.addEventListener(
+        "abort",
+        () => {
+          reject(new Error(`Timed out after ${String(options.timeoutMs)}ms`));
+        },
+        { once: true },
+      );
+    });
+    const startedAt = performance.now();
+    let error: string | null = null;
+    try {
+      await Promise.race([options.probes[name](signal), timedOut]);
+    } catch (err) {
+      error = errorMessage(err);
+      lastErrors.set(name, { message: error, at: new Date().toISOString() });
+    }
+    return {
+      status: error === null ? "ok" : "error",
+      latencyMs: Math.round(performance.now() - startedAt),
+      error,
+      lastError: lastErrors.get(name) ?? null,
+    };
+  };
+
+  const checkAll = async (
+    names = Object.keys(options.probes) as Name[],
+  ): Promise<Record<Name, HealthCheckResult>> => {
+    const results = await Promise.all(names.map(check));
+    return Object.fromEntries(
+      names.map((name, index) => [name, results[index]]),
+    ) as Record<Name, HealthCheckResult>;
+  };
+
+  return { check, checkAll };
+};
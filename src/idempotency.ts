@@ -0,0 +1,108 @@
+// Idempotency keys - replay the original response when a client retries a request
+import { createHash } from "node:crypto";
+
+export interface IdempotencyCacheOptions {
+  // How long a key is remembered after its first use
+  windowMs: number;
+  // Oldest completed keys are dropped beyond this many
+  maxEntries: number;
+}
+
+// Outcome of claiming a key for a request
+export type IdempotencyClaim<T> =
+  // The key was used with a different request body
+  | { type: "conflict" }
+  // The key already produced this response
+  | { type: "replay"; body: T }
+  // The key is reserved for this request; call complete() with its response,
+  // or release() if it failed so a retry can run it again
+  | { type: "claimed"; complete: (body: T) => void; release: () => void };
+
+export interface IdempotencyCache<T> {
+  // Reserves unused keys before resolving, so concurrent requests with the
+  // same key wait for the first one instead of running twice
+  claim: (key: string, fingerprint: string) => Promise<IdempotencyClaim<T>>;
+}
+
+interface Entry<T> {
+  // Hash of the request body the key was first used with
+  fingerprint: string;
+  createdAt: number;
+  // Set once the first request completes
+  body: T | undefined;
+  // Settles when the first request completes or releases the key
+  settled: Promise<void>;
+}
+
+// Stable hash of a validated request body
+export const fingerprintRequest = (body: unknown): string =>
+  createHash("sha256").update(JSON.stringify(body)).digest("hex");
+
+// Expired keys are swept at most this often, besides on every claim
+const SWEEP_INTERVAL_MS = 60000;
+
+// In-memory cache - keys are per process and forgotten on restart, so a retry
+// that reaches another replica or straddles a deploy runs again
+export const createIdempotencyCache = <T>(
+  options: IdempotencyCacheOptions,
+): IdempotencyCache<T> => {
+  // Insertion order is creation order, so expired keys sit at the front
+  const entries = new Map<string, Entry<T>>();
+
+  // Only completed keys are dropped: a key still held by its first request
+  // has retries waiting on it, and dropping it would let them run again
+  const evictExpired = (): void => {
+    const cutoff = Date.now() - options.windowMs;
+    for (const [key, entry] of entries) {
+      if (entry.createdAt > cutoff && entries.size <= options.maxEntries) {
+        return;
+      }
+      if (entry.body !== undefined) entries.delete(key);
+    }
+  };
+
+  const timer = setInterval(evictExpired, SWEEP_INTERVAL_MS);
+  // The sweep must not keep the process alive on its own
+  timer.unref();
+
+  const reserve = (key: string, fingerprint: string): IdempotencyClaim<T> => {
+    let settle = (): void => undefined;
+    const entry: Entry<T> = {
+      fingerprint,
+      createdAt: Date.now(),
+      body: undefined,
+      settled: new Promise((resolve) => {
+        settle = resolve;
+      }),
+    };
+    entries.set(key, entry);
+    return {
+      type: "claimed",
+      complete: (body) => {
+        entry.body = body;
+        settle();
+      },
+      release: () => {
+        if (entries.get(key) === entry) entries.delete(key);
+        settle();
+      },
+    };
+  };
+
+  const claim = async (
+    key: string,
+    fingerprint: string,
+  ): Promise<IdempotencyClaim<T>> => {
+    for (;;) {
+      evictExpired();
+      const entry = entries.get(key);
+      if (!entry) return reserve(key, fingerprint);
+      if (entry.fingerprint !== fingerprint) return { type: "conflict" };
+      if (entry.body !== undefined) return { type: "replay", body: entry.body };
+      // Another request holds the key; look again once it is done
+      await entry.settled;
+    }
+  };
+
+  return { claim };
+};
@@ -1,18 +1,93 @@
-import { HeadObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import type { S3ClientConfig } from "@aws-sdk/client-s3";
 import { serve } from "@hono/node-server";
 import type { ServerType } from "@hono/node-server";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import { createNodeWebSocket } from "@hono/node-ws";
 import { httpInstrumentationMiddleware } from "@hono/otel";
 import { sentry } from "@hono/sentry";
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import type { RouteConfig } from "@hono/zod-openapi";
+import { isSpanContextValid, trace } from "@opentelemetry/api";
+import { OTLPLogExporter } from "@opentelemetry/exporter-logs-otlp-http";
+import { OTLPMetricExporter } from "@opentelemetry/exporter-metrics-otlp-http";
 import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
 import { resourceFromAttributes } from "@opentelemetry/resources";
-import { NodeSDK } from "@opentelemetry/sdk-node";
+import {
+  logs as otelLogs,
+  metrics as otelMetrics,
+  NodeSDK,
+} from "@opentelemetry/sdk-node";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
 import { Scalar } from "@scalar/hono-api-reference";
+import type { Context, MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
+import { routePath } from "hono/route";
 import { secureHeaders } from "hono/secure-headers";
+import { streamSSE } from "hono/streaming";
 import { timeout } from "hono/timeout";
 import { rateLimiter } from "hono-rate-limiter";
+import type { Store } from "hono-rate-limiter";
+import { randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { setTimeout as delay } from "node:timers/promises";
+import {
+  createApiKeyVerifier,
+  hasScope,
+  isApiKey,
+  loadApiKeys,
+} from "./auth.ts";
+import type { Scope, Principal } from "./auth.ts";
+import { BundleInterruptedError, createBundler } from "./bundles.ts";
+import { createClientIpResolver, parseTrustedProxies } from "./client-ip.ts";
+import {
+  createMemoryDeadLetterStore,
+  createSqliteDeadLetterStore,
+} from "./dead-letters.ts";
+import type { DeadLetter } from "./dead-letters.ts";
+import { createHealthChecker } from "./health.ts";
+import type { HealthCheckResult } from "./health.ts";
+import { createIdempotencyCache, fingerprintRequest } from "./idempotency.ts";
+import { createMemoryJobStore, createSqliteJobStore } from "./job-store.ts";
+import { createJobQueue, isFinished } from "./jobs.ts";
+import type { FileLookup, FileResult, Job, JobOwner } from "./jobs.ts";
+import { createJwtVerifier, JwksUnavailableError, JwtError } from "./jwt.ts";
+import { createLogger, withLogContext } from "./logger.ts";
+import { createMetrics, recordStorageCall } from "./metrics.ts";
+import {
+  createMockStorage,
+  defaultMockCatalog,
+  loadMockCatalog,
+} from "./mock-storage.ts";
+import {
+  ANONYMOUS_TIER,
+  createDailyFileQuota,
+  createFailureLimiter,
+  createMemoryCounterStore,
+  createRateLimitStore,
+  createRedisCounterStore,
+  DEFAULT_TIER,
+  failOpen,
+  resolveTiers,
+  TierOverridesSchema,
+} from "./rate-limits.ts";
+import type {
+  CounterStore,
+  RateLimitBucket,
+  TierLimits,
+} from "./rate-limits.ts";
+import { createRedisClient } from "./redis.ts";
+import { retry, RetryError } from "./retry.ts";
+import {
+  createLocalStorage,
+  createS3Storage,
+  createUrlSigner,
+  observeStorage,
+} from "./storage.ts";
+import type { StorageDriver } from "./storage.ts";
+import { createTelemetry, exportLogRecords } from "./telemetry.ts";
+import { createWebhookDispatcher } from "./webhooks.ts";
 
 // Helper for optional URL that treats empty string as undefined
 const optionalUrl = z
@@ -27,34 +102,200 @@ const EnvSchema = z.object({
     .enum(["development", "production", "test"])
     .default("development"),
   PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  // Build info reported by /health/deep, usually baked into the image
+  GIT_COMMIT_SHA: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  BUILD_TIME: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+  // Defaults to pretty in development, JSON lines otherwise
+  LOG_FORMAT: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val))
+    .pipe(z.enum(["json", "pretty"]).optional()),
+  // Where files are stored; defaults to s3 when a bucket is configured, else memory
+  STORAGE_DRIVER: z.enum(["s3", "local", "memory"]).optional(),
+  // Root directory for STORAGE_DRIVER=local
+  STORAGE_LOCAL_DIR: z.string().min(1).default("data/storage"),
+  // Base URL clients reach this service under, for local and memory download URLs
+  STORAGE_PUBLIC_URL: optionalUrl,
+  // HMAC key for local and memory download URLs; random per process when unset
+  STORAGE_SIGNING_SECRET: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  // Memory driver: seed for file sizes and simulated failures (default: the
+  // catalog's seed, else 0), and a JSON or YAML fixture catalog
+  STORAGE_MOCK_SEED: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  STORAGE_MOCK_CATALOG: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  // Memory driver keeps stored objects (bundles) in RAM; larger ones are rejected
+  STORAGE_MEMORY_MAX_OBJECT_MB: z.coerce.number().int().min(1).default(100),
   S3_REGION: z.string().min(1).default("us-east-1"),
   S3_ACCESS_KEY_ID: z.string().optional(),
   S3_SECRET_ACCESS_KEY: z.string().optional(),
   S3_ENDPOINT: optionalUrl,
   S3_BUCKET_NAME: z.string().default(""),
   S3_FORCE_PATH_STYLE: z.coerce.boolean().default(false),
+  // Endpoint browsers use to fetch presigned URLs, when it differs from S3_ENDPOINT
+  S3_PUBLIC_ENDPOINT: optionalUrl,
+  // Lifetime of download URLs for every driver (max 7 days, the SigV4 limit)
+  S3_PRESIGN_EXPIRES_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(604800)
+    .default(900),
+  // Retries for transient storage errors (NotFound is never retried)
+  S3_RETRY_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(10).default(4),
+  S3_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(200),
+  S3_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(5000),
   SENTRY_DSN: optionalUrl,
   OTEL_EXPORTER_OTLP_ENDPOINT: optionalUrl,
+  // Set to none when the OTLP endpoint only accepts traces (e.g. plain Jaeger)
+  OTEL_METRICS_EXPORTER: z.enum(["otlp", "none"]).default("otlp"),
+  OTEL_LOGS_EXPORTER: z.enum(["otlp", "none"]).default("otlp"),
+  OTEL_METRIC_EXPORT_INTERVAL: z.coerce.number().int().min(1000).default(60000),
   REQUEST_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
+  // Health probes: per-dependency timeout, and the latency that counts as degraded
+  HEALTH_CHECK_TIMEOUT_MS: z.coerce.number().int().min(100).default(2000),
+  HEALTH_DEGRADED_LATENCY_MS: z.coerce.number().int().min(1).default(1000),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().min(1000).default(60000),
+  // Cheap-route requests per window for anonymous clients
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().min(1).default(100),
+  // Where rate-limit and quota counters live; redis shares them across replicas
+  RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+  RATE_LIMIT_REDIS_URL: optionalUrl,
+  RATE_LIMIT_REDIS_PREFIX: z.string().default("delineate:ratelimit:"),
+  RATE_LIMIT_REDIS_TIMEOUT_MS: z.coerce.number().int().min(50).default(500),
+  // JSON overrides of the rate-limit tiers, e.g. {"premium":{"dailyFiles":50000}}
+  RATE_LIMIT_TIERS: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (!val) return {};
+      try {
+        return JSON.parse(val) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "Must be a JSON object" });
+        return z.NEVER;
+      }
+    })
+    .pipe(TierOverridesSchema),
+  // Rejected API keys and tokens allowed per client IP within the window
+  AUTH_FAILURE_LIMIT: z.coerce.number().int().min(1).default(20),
+  AUTH_FAILURE_WINDOW_MS: z.coerce.number().int().min(1000).default(600000),
+  // Comma-separated proxy IPs or CIDRs whose X-Forwarded-For hops are believed
+  TRUSTED_PROXIES: z
+    .string()
+    .default("")
+    .transform((val) =>
+      val
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== ""),
+    ),
   CORS_ORIGINS: z
     .string()
     .default("*")
     .transform((val) => (val === "*" ? "*" : val.split(","))),
+  // JSON file of hashed API keys (see npm run api-keys); routes are anonymous when unset
+  API_KEYS_FILE: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  // JWT bearer tokens, verified against a JWKS file or URL (set one of the two)
+  JWT_JWKS_FILE: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  JWT_JWKS_URL: optionalUrl,
+  JWT_JWKS_CACHE_TTL_MS: z.coerce.number().int().min(1000).default(600000), // 10 minutes
+  JWT_ISSUER: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  JWT_AUDIENCE: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  JWT_CLOCK_TOLERANCE_SECONDS: z.coerce.number().int().min(0).default(30),
+  JWT_TIER_CLAIM: z.string().min(1).default("tier"),
   // Download delay simulation (in milliseconds)
   DOWNLOAD_DELAY_MIN_MS: z.coerce.number().int().min(0).default(10000), // 10 seconds
   DOWNLOAD_DELAY_MAX_MS: z.coerce.number().int().min(0).default(200000), // 200 seconds
   DOWNLOAD_DELAY_ENABLED: z.coerce.boolean().default(true),
+  // Download job processing
+  JOB_CONCURRENCY: z.coerce.number().int().min(1).default(5),
+  JOB_RETENTION_MS: z.coerce.number().int().min(60000).default(86400000), // 24 hours
+  JOB_STORE: z.enum(["memory", "sqlite"]).default("memory"),
+  // Also holds the dead-letter queue when JOB_STORE=sqlite
+  JOB_STORE_PATH: z.string().min(1).default("data/jobs.db"),
+  JOB_STORE_FLUSH_INTERVAL_MS: z.coerce.number().int().min(10).default(250),
+  // How long dead-letter entries are kept, replayed or not
+  DEAD_LETTER_RETENTION_MS: z.coerce
+    .number()
+    .int()
+    .min(60000)
+    .default(604800000), // 7 days
+  // Job bundles (single ZIP archive per job)
+  BUNDLE_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  BUNDLE_PART_SIZE_MB: z.coerce.number().int().min(5).max(5120).default(8),
+  // Parallel storage lookups per /v1/download/check/batch request
+  CHECK_BATCH_CONCURRENCY: z.coerce.number().int().min(1).max(100).default(16),
+  // How long an Idempotency-Key on /v1/download/initiate is remembered
+  IDEMPOTENCY_WINDOW_MS: z.coerce.number().int().min(1000).default(86400000), // 24 hours
+  // Keys remembered at once; the oldest are forgotten first
+  IDEMPOTENCY_MAX_KEYS: z.coerce.number().int().min(1).default(100000),
+  // Job completion webhooks
+  WEBHOOK_SECRET: z
+    .string()
+    .optional()
+    .transform((val) => (val === "" ? undefined : val)),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(5),
+  WEBHOOK_BACKOFF_BASE_MS: z.coerce.number().int().min(100).default(1000),
+  WEBHOOK_BACKOFF_MAX_MS: z.coerce.number().int().min(100).default(60000),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(1000).default(10000),
+  // How long shutdown waits for open HTTP connections before dropping them
+  SHUTDOWN_GRACE_MS: z.coerce.number().int().min(0).default(10000),
+  // Comma-separated callback hosts allowed to resolve to private addresses
+  WEBHOOK_ALLOWED_PRIVATE_HOSTS: z
+    .string()
+    .default("")
+    .transform((val) =>
+      val
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== ""),
+    ),
 });
 
 // Parse and validate environment
 const env = EnvSchema.parse(process.env);
 
-// S3 Client
-const s3Client = new S3Client({
+const { version: appVersion } = JSON.parse(
+  readFileSync(new URL("../package.json", import.meta.url), "utf8"),
+) as { version: string };
+const processStartedAt = new Date();
+// Set once shutdown begins, so readiness fails while connections drain
+let draining = false;
+// Closers for event streams and WebSockets, which only end when the client
+// leaves; shutdown calls them so the HTTP server can close
+const openStreams = new Set<() => void>();
+
+// S3 client settings, used when STORAGE_DRIVER=s3
+const s3ClientConfig: S3ClientConfig = {
   region: env.S3_REGION,
-  ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT }),
   ...(env.S3_ACCESS_KEY_ID &&
     env.S3_SECRET_ACCESS_KEY && {
       credentials: {
@@ -63,25 +304,116 @@ const s3Client = new S3Client({
       },
     }),
   forcePathStyle: env.S3_FORCE_PATH_STYLE,
-});
+  // Storage calls retry with their own backoff, see storageRetryOptions
+  maxAttempts: 1,
+};
 
 // Initialize OpenTelemetry SDK
+// Metrics and logs share the trace pipeline's resource and OTLP endpoint
 const otelSDK = new NodeSDK({
   resource: resourceFromAttributes({
     [ATTR_SERVICE_NAME]: "delineate-hackathon-challenge",
   }),
   traceExporter: new OTLPTraceExporter(),
+  ...(env.OTEL_METRICS_EXPORTER === "otlp" && {
+    metricReader: new otelMetrics.PeriodicExportingMetricReader({
+      exporter: new OTLPMetricExporter(),
+      exportIntervalMillis: env.OTEL_METRIC_EXPORT_INTERVAL,
+    }),
+  }),
+  ...(env.OTEL_LOGS_EXPORTER === "otlp" && {
+    logRecordProcessors: [
+      new otelLogs.BatchLogRecordProcessor(new OTLPLogExporter()),
+    ],
+  }),
 });
 otelSDK.start();
+const telemetry = createTelemetry("delineate-hackathon-challenge");
+
+// Structured logger - every record carries the request or job it belongs to
+// and the active trace, and is exported over OTLP next to stdout
+const logger = createLogger({
+  level: env.LOG_LEVEL,
+  format:
+    env.LOG_FORMAT ?? (env.NODE_ENV === "development" ? "pretty" : "json"),
+  context: () => {
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    return spanContext && isSpanContextValid(spanContext)
+      ? { traceId: spanContext.traceId, spanId: spanContext.spanId }
+      : {};
+  },
+  ...(env.OTEL_LOGS_EXPORTER === "otlp" && {
+    onRecord: exportLogRecords("delineate-hackathon-challenge"),
+  }),
+});
+
+// Trace ID of the active span, or null when tracing is not recording
+const currentTraceId = (): string | null => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && isSpanContextValid(spanContext)
+    ? spanContext.traceId
+    : null;
+};
+
+// Request-scoped context variables
+declare module "hono" {
+  interface ContextVariableMap {
+    requestId: string;
+    // Resolved through TRUSTED_PROXIES; "unknown" without a socket address
+    clientIp: string;
+    // Set by the authentication middleware once the credential checks out
+    principal: Principal | undefined;
+  }
+}
 
 const app = new OpenAPIHono();
+const nodeWebSocket = createNodeWebSocket({ app });
+const { upgradeWebSocket } = nodeWebSocket;
+
+// Prometheus metrics - job gauges read the queue defined further down
+const metrics = createMetrics({ jobStats: () => jobQueue.stats() });
+
+// Route template for metric labels; unmatched paths share one label so
+// scanners cannot blow up cardinality
+const routeLabel = (c: Context): string => {
+  const route = routePath(c, -1);
+  return route === "/*" ? "unmatched" : route;
+};
+
+// Client IP resolution - X-Forwarded-For is ignored unless the socket peer
+// is a trusted proxy, so clients cannot choose their own rate-limit key
+const resolveClientIp = createClientIpResolver(
+  parseTrustedProxies(env.TRUSTED_PROXIES),
+);
 
 // Request ID middleware - adds unique ID to each request
 app.use(async (c, next) => {
   const requestId = c.req.header("x-request-id") ?? crypto.randomUUID();
+  const clientIp =
+    resolveClientIp(
+      getConnInfo(c).remote.address,
+      c.req.header("x-forwarded-for"),
+    ) ?? "unknown";
   c.set("requestId", requestId);
+  c.set("clientIp", clientIp);
   c.header("x-request-id", requestId);
+  await withLogContext({ requestId, route: routeLabel(c), clientIp }, next);
+});
+
+// Metrics middleware - request count and latency per route template and status
+app.use(async (c, next) => {
+  const startedAt = performance.now();
   await next();
+  const labels = {
+    method: c.req.method,
+    route: routeLabel(c),
+    status: String(c.res.status),
+  };
+  metrics.httpRequests.inc(labels);
+  metrics.httpRequestDuration.observe(
+    labels,
+    (performance.now() - startedAt) / 1000,
+  );
 });
 
 // Security headers middleware (helmet-like)
@@ -91,32 +423,335 @@ app.use(secureHeaders());
 app.use(
   cors({
     origin: env.CORS_ORIGINS,
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization", "X-Request-ID"],
+    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-API-Key",
+      "X-Request-ID",
+      "Idempotency-Key",
+      "Range",
+      "If-None-Match",
+      "If-Modified-Since",
+    ],
     exposeHeaders: [
+      "Content-Disposition",
+      "Content-Range",
+      "Accept-Ranges",
+      "ETag",
       "X-Request-ID",
-      "X-RateLimit-Limit",
-      "X-RateLimit-Remaining",
+      "Idempotent-Replayed",
+      "RateLimit-Policy",
+      "RateLimit-Limit",
+      "RateLimit-Remaining",
+      "RateLimit-Reset",
+      "Retry-After",
     ],
     maxAge: 86400,
   }),
 );
 
+// API key authentication - loaded once at startup, restart to pick up new keys
+const apiKeys = env.API_KEYS_FILE
+  ? createApiKeyVerifier(loadApiKeys(env.API_KEYS_FILE))
+  : undefined;
+
+// JWT authentication - tokens from an external identity provider
+const jwtJwks = env.JWT_JWKS_FILE ?? env.JWT_JWKS_URL;
+if (env.JWT_JWKS_FILE && env.JWT_JWKS_URL) {
+  throw new Error("Set only one of JWT_JWKS_FILE and JWT_JWKS_URL");
+}
+if (jwtJwks && (!env.JWT_ISSUER || !env.JWT_AUDIENCE)) {
+  throw new Error("JWT authentication requires JWT_ISSUER and JWT_AUDIENCE");
+}
+const jwtVerifier =
+  jwtJwks && env.JWT_ISSUER && env.JWT_AUDIENCE
+    ? createJwtVerifier({
+        jwksFile: env.JWT_JWKS_FILE,
+        jwksUrl: env.JWT_JWKS_URL,
+        cacheTtlMs: env.JWT_JWKS_CACHE_TTL_MS,
+        issuer: env.JWT_ISSUER,
+        audience: env.JWT_AUDIENCE,
+        clockToleranceSeconds: env.JWT_CLOCK_TOLERANCE_SECONDS,
+        tierClaim: env.JWT_TIER_CLAIM,
+        logger,
+      })
+    : undefined;
+
+const authEnabled = apiKeys !== undefined || jwtVerifier !== undefined;
+if (authEnabled) {
+  logger.info("Authentication enabled", {
+    apiKeys: apiKeys?.size ?? 0,
+    jwks: jwtJwks ?? null,
+  });
+} else if (env.NODE_ENV === "production") {
+  logger.warn(
+    "Neither API_KEYS_FILE nor a JWKS is set; routes are anonymous and admin routes are disabled",
+  );
+}
+
+app.openAPIRegistry.registerComponent("securitySchemes", "ApiKey", {
+  type: "apiKey",
+  in: "header",
+  name: "X-API-Key",
+});
+app.openAPIRegistry.registerComponent("securitySchemes", "BearerApiKey", {
+  type: "http",
+  scheme: "bearer",
+  description: "An API key sent as Authorization: Bearer <key>",
+});
+app.openAPIRegistry.registerComponent("securitySchemes", "BearerToken", {
+  type: "http",
+  scheme: "bearer",
+  bearerFormat: "JWT",
+  description: "A JWT issued by JWT_ISSUER for JWT_AUDIENCE",
+});
+
+// Rate-limit counters - while Redis is unreachable, limits fail open rather
+// than turning every request into an error
+const createRateLimitCounters = (): CounterStore => {
+  if (env.RATE_LIMIT_STORE === "memory") return createMemoryCounterStore();
+  if (!env.RATE_LIMIT_REDIS_URL) {
+    throw new Error("RATE_LIMIT_STORE=redis requires RATE_LIMIT_REDIS_URL");
+  }
+  const redis = createRedisCounterStore({
+    client: createRedisClient({
+      url: env.RATE_LIMIT_REDIS_URL,
+      timeoutMs: env.RATE_LIMIT_REDIS_TIMEOUT_MS,
+    }),
+    prefix: env.RATE_LIMIT_REDIS_PREFIX,
+  });
+  return failOpen(redis, {
+    onFailure: (err) => {
+      logger.warn("Rate-limit store unavailable; limits are not enforced", {
+        err,
+      });
+    },
+    onRecovery: () => {
+      logger.info("Rate-limit store recovered");
+    },
+  });
+};
+const rateLimitCounters = createRateLimitCounters();
+
+// Rejected credentials per client address; past the limit, credentials from
+// that address are refused unchecked until the window ends
+const credentialFailures = createFailureLimiter(rateLimitCounters, {
+  prefix: "auth-failures:",
+  limit: env.AUTH_FAILURE_LIMIT,
+  windowMs: env.AUTH_FAILURE_WINDOW_MS,
+});
+
+// Browsers cannot set headers on a WebSocket, so they offer the subprotocols
+// ["bearer", <key or token>] instead; the server answers with "bearer"
+const WEBSOCKET_BEARER_PROTOCOL = "bearer";
+
+interface Credential {
+  type: Principal["type"];
+  value: string;
+}
+
+// A bearer value may be an API key or a JWT
+const bearerCredential = (value: string): Credential => ({
+  type: isApiKey(value) ? "api-key" : "jwt",
+  value,
+});
+
+// Credentials are only read from headers; the HTTP instrumentation records
+// full URLs in traces, so one in the query string would leak
+const readCredential = (c: Context): Credential | undefined => {
+  const authorization = c.req.header("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return bearerCredential(authorization.slice("bearer ".length).trim());
+  }
+  const key = c.req.header("x-api-key");
+  if (key !== undefined) return { type: "api-key", value: key };
+  const [protocol, value] = (c.req.header("sec-websocket-protocol") ?? "")
+    .split(",")
+    .map((entry) => entry.trim());
+  return protocol === WEBSOCKET_BEARER_PROTOCOL && value
+    ? bearerCredential(value)
+    : undefined;
+};
+
+const unauthorized = (c: Context, message: string) => {
+  c.header("WWW-Authenticate", 'Bearer realm="api"');
+  return c.json(
+    { error: "Unauthorized", message, requestId: c.get("requestId") },
+    401,
+  );
+};
+
+// Bad credentials are logged, with the client address from the log context,
+// so guessing and leaked keys show up in the logs
+const rejectCredential = async (
+  c: Context,
+  credential: Principal["type"],
+  reason: string,
+) => {
+  const { count } = await credentialFailures.record(c.get("clientIp"));
+  logger.warn("Rejected credential", { credential, reason, failures: count });
+  return unauthorized(c, reason);
+};
+
+// Authentication middleware - resolves the request's credential into its
+// principal; requests without one stay anonymous until a route requires a scope
+app.use(async (c, next) => {
+  const credential = authEnabled ? readCredential(c) : undefined;
+  if (!credential) {
+    await next();
+    return;
+  }
+  // Checked before verifying, so a client cycling through bad keys or tokens
+  // costs neither a JWKS lookup nor a log line per attempt
+  const blocked = await credentialFailures.blocked(c.get("clientIp"));
+  if (blocked) {
+    metrics.rateLimitRejections.inc({ route: routeLabel(c) });
+    c.header(
+      "Retry-After",
+      String(Math.ceil((blocked.resetAt.getTime() - Date.now()) / 1000)),
+    );
+    return c.json(
+      {
+        error: "Too Many Requests",
+        message:
+          "Too many rejected credentials from this address, please try again later",
+        requestId: c.get("requestId"),
+      },
+      429,
+    );
+  }
+  if (credential.type === "api-key") {
+    const principal = apiKeys?.verify(credential.value);
+    if (!principal) {
+      return rejectCredential(
+        c,
+        credential.type,
+        apiKeys
+          ? "The API key is invalid, expired or revoked"
+          : "API keys are not accepted",
+      );
+    }
+    c.set("principal", principal);
+  } else {
+    if (!jwtVerifier) {
+      return rejectCredential(
+        c,
+        credential.type,
+        "Bearer tokens are not accepted",
+      );
+    }
+    try {
+      c.set("principal", await jwtVerifier.verify(credential.value));
+    } catch (err) {
+      if (err instanceof JwtError) {
+        return rejectCredential(c, credential.type, err.message);
+      }
+      // Not the client's fault, so it is neither counted nor a 401
+      if (err instanceof JwksUnavailableError) {
+        logger.warn("Bearer token not verified", { err });
+        c.header("Retry-After", "30");
+        return c.json(
+          {
+            error: "Service Unavailable",
+            message:
+              "Bearer tokens cannot be verified right now, please retry later",
+            requestId: c.get("requestId"),
+          },
+          503,
+        );
+      }
+      throw err;
+    }
+  }
+  await next();
+});
+
 // Request timeout middleware
 app.use(timeout(env.REQUEST_TIMEOUT_MS));
 
-// Rate limiting middleware
-app.use(
-  rateLimiter({
-    windowMs: env.RATE_LIMIT_WINDOW_MS,
-    limit: env.RATE_LIMIT_MAX_REQUESTS,
-    standardHeaders: "draft-6",
-    keyGenerator: (c) =>
-      c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
-      c.req.header("x-real-ip") ??
-      "anonymous",
-  }),
+// Rate limit tiers - a principal's tier sets its request and file allowance.
+// Without authentication every caller is anonymous, so anonymous callers get
+// the default tier's job and file allowance rather than a trial one.
+const defaultTierLimits: TierLimits = {
+  cheap: 600,
+  expensive: 60,
+  dailyFiles: 10000,
+};
+const rateLimitTiers = resolveTiers(
+  {
+    [ANONYMOUS_TIER]: authEnabled
+      ? { cheap: env.RATE_LIMIT_MAX_REQUESTS, expensive: 10, dailyFiles: 100 }
+      : { ...defaultTierLimits, cheap: env.RATE_LIMIT_MAX_REQUESTS },
+    [DEFAULT_TIER]: defaultTierLimits,
+    premium: { cheap: 3000, expensive: 300, dailyFiles: 100000 },
+  },
+  env.RATE_LIMIT_TIERS,
 );
+const rateLimitStores: Record<RateLimitBucket, Store> = {
+  cheap: createRateLimitStore(rateLimitCounters, "cheap:"),
+  expensive: createRateLimitStore(rateLimitCounters, "expensive:"),
+};
+const fileQuota = createDailyFileQuota(rateLimitCounters);
+
+// Routes that start downloads draw on their own, smaller bucket
+const EXPENSIVE_ROUTES = new Set([
+  "POST /v1/download/initiate",
+  "POST /v1/download/start",
+]);
+
+const rateLimitBucket = (c: Context): RateLimitBucket | undefined => {
+  // Scrapes and probes come from a handful of addresses at a steady rate
+  if (c.req.path === "/metrics" || c.req.path.startsWith("/health")) {
+    return undefined;
+  }
+  return EXPENSIVE_ROUTES.has(`${c.req.method} ${c.req.path}`)
+    ? "expensive"
+    : "cheap";
+};
+
+// Authenticated requests are limited per principal, anonymous ones per client
+const rateLimitKey = (c: Context): string => {
+  const principal = c.get("principal");
+  if (principal) return `${principal.type}:${principal.subject}`;
+  return `ip:${c.get("clientIp")}`;
+};
+
+// Tiers missing from the configuration fall back to the default tier
+const rateLimitTier = (c: Context): { name: string; limits: TierLimits } => {
+  const principal = c.get("principal");
+  const name = principal ? (principal.tier ?? DEFAULT_TIER) : ANONYMOUS_TIER;
+  return Object.hasOwn(rateLimitTiers, name)
+    ? { name, limits: rateLimitTiers[name] }
+    : { name: DEFAULT_TIER, limits: rateLimitTiers[DEFAULT_TIER] };
+};
+
+// Rate limiting middleware - one limiter per bucket, so each request counts once
+for (const bucket of ["cheap", "expensive"] as const) {
+  app.use(
+    rateLimiter({
+      windowMs: env.RATE_LIMIT_WINDOW_MS,
+      limit: (c) => rateLimitTier(c).limits[bucket],
+      standardHeaders: "draft-6",
+      keyGenerator: rateLimitKey,
+      store: rateLimitStores[bucket],
+      skip: (c) => rateLimitBucket(c) !== bucket,
+      handler: (c) => {
+        metrics.rateLimitRejections.inc({ route: routeLabel(c) });
+        logger.warn("Rate limit exceeded", { bucket, key: rateLimitKey(c) });
+        // The limiter has already set Retry-After
+        return c.json(
+          {
+            error: "Too Many Requests",
+            message: "Too many requests, please try again later",
+            requestId: c.get("requestId"),
+          },
+          429,
+        );
+      },
+    }),
+  );
+}
 
 // OpenTelemetry middleware
 app.use(
@@ -145,6 +780,22 @@ const ErrorResponseSchema = z
 app.onError((err, c) => {
   c.get("sentry").captureException(err);
   const requestId = c.get("requestId") as string | undefined;
+  // Storage stayed unreachable through every retry
+  if (err instanceof RetryError) {
+    logger.warn("Storage unavailable", { err });
+    return c.json(
+      {
+        error: "Service Unavailable",
+        message:
+          env.NODE_ENV === "development"
+            ? err.message
+            : "Storage is temporarily unavailable, please retry later",
+        requestId,
+      },
+      503,
+    );
+  }
+  logger.error("Unhandled error", { err });
   return c.json(
     {
       error: "Internal Server Error",
@@ -158,6 +809,127 @@ app.onError((err, c) => {
   );
 });
 
+// Reject anonymous requests and principals without the scope. When
+// authentication is disabled everything passes except admin routes, which
+// would otherwise let anyone replay the dead-letter queue
+const requireScope =
+  (scope: Scope): MiddlewareHandler =>
+  async (c, next) => {
+    if (!authEnabled && scope === "admin") {
+      return c.json(
+        {
+          error: "Forbidden",
+          message:
+            "Admin routes require authentication; set API_KEYS_FILE or a JWKS",
+          requestId: c.get("requestId"),
+        },
+        403,
+      );
+    }
+    if (!authEnabled) {
+      await next();
+      return;
+    }
+    const principal = c.get("principal");
+    if (!principal) {
+      return unauthorized(c, "An API key or bearer token is required");
+    }
+    if (!hasScope(principal, scope)) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: `The credential lacks the ${scope} scope`,
+          requestId: c.get("requestId"),
+        },
+        403,
+      );
+    }
+    await next();
+  };
+
+// Jobs are visible to the principal that created them and to admins; jobs
+// created while authentication was disabled have no owner and stay shared
+const canAccessJob = (principal: Principal | undefined, job: Job): boolean =>
+  !authEnabled ||
+  !job.owner ||
+  (principal !== undefined &&
+    (hasScope(principal, "admin") ||
+      (principal.type === job.owner.type &&
+        principal.subject === job.owner.subject)));
+
+const jobOwner = (principal: Principal | undefined): JobOwner | null =>
+  principal ? { type: principal.type, subject: principal.subject } : null;
+
+// Any scheme satisfies the requirement
+const authSecurity: RouteConfig["security"] = [
+  { ApiKey: [] },
+  { BearerApiKey: [] },
+  { BearerToken: [] },
+];
+
+// Anonymous callers are accepted too
+const optionalAuthSecurity: RouteConfig["security"] = [{}, ...authSecurity];
+
+// Route config for endpoints behind authentication
+const authenticated = (scope: Scope) => ({
+  middleware: requireScope(scope),
+  security: authSecurity,
+});
+
+const authErrorResponses = (scope: Scope) => ({
+  401: {
+    description: "Missing, invalid or expired API key or bearer token",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+  403: {
+    description:
+      scope === "admin"
+        ? "Credential lacks the admin scope, or authentication is disabled"
+        : `Credential lacks the ${scope} scope`,
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+});
+
+const quotaErrorResponses = {
+  429: {
+    description:
+      "Too many requests, or the daily file quota is used up (Retry-After gives the wait in seconds)",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+};
+
+// Count files against the caller's daily quota; returns the error body when
+// they do not fit, after setting Retry-After to the quota reset
+const consumeFileQuota = async (c: Context, files: number) => {
+  const { allowed, usage } = await fileQuota.consume(
+    rateLimitKey(c),
+    files,
+    rateLimitTier(c).limits.dailyFiles,
+  );
+  if (allowed) return undefined;
+  c.header(
+    "Retry-After",
+    String(Math.ceil((usage.resetAt.getTime() - Date.now()) / 1000)),
+  );
+  return {
+    error: "Quota Exceeded",
+    message: `${String(files)} files exceed the daily quota of ${String(usage.limit)} (${String(usage.remaining)} left until ${usage.resetAt.toISOString()})`,
+    requestId: c.get("requestId"),
+  };
+};
+
 // Schemas
 const MessageResponseSchema = z
   .object({
@@ -165,23 +937,112 @@ const MessageResponseSchema = z
   })
   .openapi("MessageResponse");
 
+const HealthStatusSchema = z.enum(["healthy", "degraded", "unhealthy"]);
+const CheckStatusSchema = z.enum(["ok", "error"]);
+
 const HealthResponseSchema = z
   .object({
-    status: z.enum(["healthy", "unhealthy"]),
+    status: HealthStatusSchema,
     checks: z.object({
-      storage: z.enum(["ok", "error"]),
+      storage: CheckStatusSchema,
     }),
+    timestamp: z.iso.datetime(),
   })
   .openapi("HealthResponse");
 
+const LivenessResponseSchema = z
+  .object({
+    status: z.literal("ok"),
+    uptimeSeconds: z.number(),
+  })
+  .openapi("LivenessResponse");
+
+const ReadinessResponseSchema = z
+  .object({
+    status: z.enum(["ready", "not_ready"]),
+    checks: z.object({
+      storage: CheckStatusSchema,
+      jobStore: CheckStatusSchema,
+      worker: CheckStatusSchema,
+    }),
+    draining: z.boolean(),
+  })
+  .openapi("ReadinessResponse");
+
+const HealthCheckResultSchema = z
+  .object({
+    status: CheckStatusSchema,
+    latencyMs: z.number(),
+    error: z.string().nullable(),
+    lastError: z
+      .object({
+        message: z.string(),
+        at: z.iso.datetime(),
+      })
+      .nullable(),
+  })
+  .openapi("HealthCheckResult");
+
+const DeepHealthResponseSchema = z
+  .object({
+    status: HealthStatusSchema,
+    checks: z.object({
+      storage: HealthCheckResultSchema,
+      jobStore: HealthCheckResultSchema,
+      worker: HealthCheckResultSchema,
+      rateLimitStore: HealthCheckResultSchema,
+    }),
+    draining: z.boolean(),
+    queue: z.object({
+      queued: z.number().int(),
+      processing: z.number().int(),
+    }),
+    build: z.object({
+      version: z.string(),
+      commit: z.string().nullable(),
+      builtAt: z.string().nullable(),
+      node: z.string(),
+      environment: z.string(),
+      storageDriver: z.enum(["s3", "local", "memory"]),
+      jobStore: z.enum(["memory", "sqlite"]),
+      rateLimitStore: z.enum(["memory", "redis"]),
+    }),
+    startedAt: z.iso.datetime(),
+    uptimeSeconds: z.number(),
+    timestamp: z.iso.datetime(),
+  })
+  .openapi("DeepHealthResponse");
+
 // Download API Schemas
+// Shared bound for endpoints that take many file IDs at once
+const FileIdListSchema = z
+  .array(z.number().int().min(10000).max(100000000))
+  .min(1)
+  .max(1000)
+  .openapi({ description: "Array of file IDs (10K to 100M)" });
+
 const DownloadInitiateRequestSchema = z
   .object({
-    file_ids: z
-      .array(z.number().int().min(10000).max(100000000))
-      .min(1)
-      .max(1000)
-      .openapi({ description: "Array of file IDs (10K to 100M)" }),
+    file_ids: FileIdListSchema,
+    callback_url: z
+      .url({ protocol: /^https?$/ })
+      .optional()
+      .openapi({
+        description:
+          "URL that receives a POST with the job status once the job completes or fails. Hosts that resolve to private, loopback or link-local addresses are refused at delivery.",
+      }),
+    callback_secret: z.string().min(16).max(256).optional().openapi({
+      description:
+        "Secret used to sign the callback (X-Webhook-Signature: sha256=HMAC of `<timestamp>.<body>`)",
+    }),
+    bundle: z.boolean().optional().openapi({
+      description:
+        "Combine the available files into one ZIP archive once the job completes; its download URL appears under `bundle` in the job status",
+    }),
+  })
+  .refine((body) => body.callback_secret === undefined || body.callback_url, {
+    message: "callback_secret requires callback_url",
+    path: ["callback_secret"],
   })
   .openapi("DownloadInitiateRequest");
 
@@ -193,6 +1054,19 @@ const DownloadInitiateResponseSchema = z
   })
   .openapi("DownloadInitiateResponse");
 
+const IdempotencyKeyHeaderSchema = z.object({
+  "idempotency-key": z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .openapi({
+      param: { in: "header" },
+      description:
+        "Client-generated key; retrying with the same key and body returns the original response instead of creating another job",
+    }),
+});
+
 const DownloadCheckRequestSchema = z
   .object({
     file_id: z
@@ -220,6 +1094,34 @@ const DownloadCheckResponseSchema = z
   })
   .openapi("DownloadCheckResponse");
 
+const DownloadCheckBatchRequestSchema = z
+  .object({
+    file_ids: FileIdListSchema,
+  })
+  .openapi("DownloadCheckBatchRequest");
+
+const DownloadCheckBatchResponseSchema = z
+  .object({
+    results: z
+      .array(
+        DownloadCheckResponseSchema.extend({
+          error: z.string().nullable().openapi({
+            description: "Why the lookup failed (storage errors after retries)",
+          }),
+        }),
+      )
+      .openapi({
+        description: "One result per distinct file ID, in request order",
+      }),
+    summary: z.object({
+      total: z.number().int(),
+      available: z.number().int(),
+      unavailable: z.number().int(),
+      failed: z.number().int(),
+    }),
+  })
+  .openapi("DownloadCheckBatchResponse");
+
 const DownloadStartRequestSchema = z
   .object({
     file_id: z
@@ -239,6 +1141,10 @@ const DownloadStartResponseSchema = z
       .string()
       .nullable()
       .openapi({ description: "Presigned download URL if successful" }),
+    expiresAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "When the download URL stops working" }),
     size: z
       .number()
       .int()
@@ -252,220 +1158,2134 @@ const DownloadStartResponseSchema = z
   })
   .openapi("DownloadStartResponse");
 
-// Input sanitization for S3 keys - prevent path traversal
-const sanitizeS3Key = (fileId: number): string => {
-  // Ensure fileId is a valid integer within bounds (already validated by Zod)
-  const sanitizedId = Math.floor(Math.abs(fileId));
-  // Construct safe S3 key without user-controlled path components
-  return `downloads/${String(sanitizedId)}.zip`;
-};
+const FileIdParamSchema = z.object({
+  fileId: z.coerce
+    .number()
+    .int()
+    .min(10000)
+    .max(100000000)
+    .openapi({
+      param: { name: "fileId", in: "path" },
+      description: "File ID to stream (10K to 100M)",
+    }),
+});
 
-// S3 health check
-const checkS3Health = async (): Promise<boolean> => {
-  if (!env.S3_BUCKET_NAME) return true; // Mock mode
-  try {
-    // Use a lightweight HEAD request on a known path
-    const command = new HeadObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: "__health_check_marker__",
-    });
-    await s3Client.send(command);
-    return true;
-  } catch (err) {
-    // NotFound is fine - bucket is accessible
-    if (err instanceof Error && err.name === "NotFound") return true;
-    // AccessDenied or other errors indicate connection issues
-    return false;
-  }
-};
+const FileContentHeadersSchema = z.object({
+  range: z
+    .string()
+    .optional()
+    .openapi({
+      param: { in: "header" },
+      description:
+        "Single byte range such as `bytes=0-1048575`, `bytes=1048576-` or `bytes=-500`; other forms are ignored",
+    }),
+  "if-none-match": z
+    .string()
+    .optional()
+    .openapi({
+      param: { in: "header" },
+      description: "ETag from a previous response; 304 when unchanged",
+    }),
+  "if-modified-since": z
+    .string()
+    .optional()
+    .openapi({
+      param: { in: "header" },
+      description: "HTTP date; 304 when the object is not newer",
+    }),
+});
 
-// S3 availability check
-const checkS3Availability = async (
-  fileId: number,
-): Promise<{
-  available: boolean;
-  s3Key: string | null;
-  size: number | null;
-}> => {
-  const s3Key = sanitizeS3Key(fileId);
+const StorageObjectQuerySchema = z.object({
+  key: z.string().min(1).openapi({ description: "Object key" }),
+  expires: z.coerce.number().int().openapi({
+    description: "Expiry as Unix seconds",
+  }),
+  filename: z.string().min(1).max(255).openapi({
+    description: "File name sent in Content-Disposition",
+  }),
+  signature: z.string().min(1).openapi({
+    description: "HMAC-SHA256 over key, expiry and file name",
+  }),
+});
 
-  // If no bucket configured, use mock mode
-  if (!env.S3_BUCKET_NAME) {
-    const available = fileId % 7 === 0;
-    return {
-      available,
-      s3Key: available ? s3Key : null,
-      size: available ? Math.floor(Math.random() * 10000000) + 1000 : null,
-    };
-  }
+const JobIdParamSchema = z.object({
+  jobId: z.uuid().openapi({
+    param: { name: "jobId", in: "path" },
+    description: "Job identifier returned by /v1/download/initiate",
+  }),
+});
 
-  try {
-    const command = new HeadObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: s3Key,
-    });
-    const response = await s3Client.send(command);
-    return {
-      available: true,
-      s3Key,
-      size: response.ContentLength ?? null,
-    };
-  } catch {
-    return {
-      available: false,
-      s3Key: null,
-      size: null,
-    };
-  }
-};
+const JobFileResultSchema = z
+  .object({
+    file_id: z.number().int(),
+    status: z.enum(["pending", "completed", "failed"]),
+    available: z.boolean(),
+    s3Key: z
+      .string()
+      .nullable()
+      .openapi({ description: "S3 object key if available" }),
+    size: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "File size in bytes" }),
+    attempts: z.number().int().openapi({
+      description: "S3 calls made for this file, including retries",
+    }),
+    error: z
+      .string()
+      .nullable()
+      .openapi({ description: "Error message if the lookup failed" }),
+  })
+  .openapi("JobFileResult");
 
-// Random delay helper for simulating long-running downloads
-const getRandomDelay = (): number => {
-  if (!env.DOWNLOAD_DELAY_ENABLED) return 0;
-  const min = env.DOWNLOAD_DELAY_MIN_MS;
-  const max = env.DOWNLOAD_DELAY_MAX_MS;
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-};
+const WebhookStatusSchema = z
+  .object({
+    url: z.string(),
+    status: z.enum(["pending", "delivered", "failed", "interrupted"]),
+    deliveries: z.array(
+      z.object({
+        attempt: z.number().int(),
+        attemptedAt: z.string(),
+        statusCode: z.number().int().nullable(),
+        error: z.string().nullable(),
+        durationMs: z.number().int(),
+      }),
+    ),
+  })
+  .openapi("WebhookStatus");
+
+const JobBundleSchema = z
+  .object({
+    status: z.enum(["pending", "building", "ready", "failed", "interrupted"]),
+    size: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Archive size in bytes" }),
+    downloadUrl: z
+      .string()
+      .nullable()
+      .openapi({ description: "Presigned URL of the ZIP archive once ready" }),
+    expiresAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "When the download URL stops working" }),
+    error: z
+      .string()
+      .nullable()
+      .openapi({ description: "Why the archive could not be built" }),
+    completedAt: z.string().nullable(),
+  })
+  .openapi("JobBundle");
+
+const JobStatusResponseSchema = z
+  .object({
+    jobId: z.string(),
+    status: z.enum([
+      "queued",
+      "processing",
+      "completed",
+      "failed",
+      "cancelled",
+    ]),
+    progress: z.object({
+      processed: z.number().int(),
+      total: z.number().int(),
+      percentage: z
+        .number()
+        .int()
+        .openapi({ description: "Processed files as a percentage (0-100)" }),
+    }),
+    files: z.array(JobFileResultSchema),
+    error: z
+      .string()
+      .nullable()
+      .openapi({ description: "Failure reason if the job failed" }),
+    webhook: WebhookStatusSchema.nullable().openapi({
+      description: "Callback delivery log if a callback_url was given",
+    }),
+    bundle: JobBundleSchema.nullable().openapi({
+      description: "ZIP archive of the available files if bundle was requested",
+    }),
+    createdAt: z.string().openapi({ description: "ISO 8601 timestamp" }),
+    updatedAt: z.string().openapi({ description: "ISO 8601 timestamp" }),
+    startedAt: z.string().nullable(),
+    completedAt: z.string().nullable(),
+  })
+  .openapi("JobStatusResponse");
+
+const JobProgressEventSchema = JobStatusResponseSchema.pick({
+  jobId: true,
+  status: true,
+  progress: true,
+}).openapi("JobProgressEvent");
+
+const JobFileEventSchema = z
+  .object({
+    jobId: z.string(),
+    file: JobFileResultSchema,
+  })
+  .openapi("JobFileEvent");
+
+// Stream payloads are not referenced by any JSON response, so register them explicitly
+app.openAPIRegistry.register("JobProgressEvent", JobProgressEventSchema);
+app.openAPIRegistry.register("JobFileEvent", JobFileEventSchema);
+
+// WebSocket channel messages - one connection can follow many jobs
+const JOB_SOCKET_MAX_SUBSCRIPTIONS = 100;
+
+const JobSubscriptionRequestSchema = z
+  .object({
+    type: z.enum(["subscribe", "unsubscribe"]),
+    jobIds: z.array(z.uuid()).min(1).max(JOB_SOCKET_MAX_SUBSCRIPTIONS),
+  })
+  .openapi("JobSubscriptionRequest");
+
+const JobSocketMessageSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      type: z.literal("subscribed"),
+      job: JobStatusResponseSchema,
+    }),
+    z.object({
+      type: z.literal("unsubscribed"),
+      jobId: z.string(),
+    }),
+    JobFileEventSchema.extend({ type: z.literal("file") }),
+    JobProgressEventSchema.extend({ type: z.literal("progress") }),
+    z.object({
+      type: z.enum(["completed", "failed", "cancelled"]),
+      job: JobStatusResponseSchema,
+    }),
+    ErrorResponseSchema.extend({
+      type: z.literal("error"),
+      jobId: z.string().optional(),
+    }),
+  ])
+  .openapi("JobSocketMessage");
+
+app.openAPIRegistry.register(
+  "JobSubscriptionRequest",
+  JobSubscriptionRequestSchema,
+);
+app.openAPIRegistry.register("JobSocketMessage", JobSocketMessageSchema);
+
+// Quota - the caller's rate-limit buckets and daily file allowance
+const RateLimitUsageSchema = z.object({
+  limit: z.number().int().openapi({ description: "Requests per window" }),
+  used: z.number().int(),
+  remaining: z.number().int(),
+  windowMs: z.number().int(),
+  resetAt: z.string().nullable().openapi({
+    description: "When the current window ends; null when none is open",
+  }),
+});
+
+const QuotaResponseSchema = z
+  .object({
+    principal: z
+      .object({
+        type: z.enum(["api-key", "jwt"]),
+        subject: z.string(),
+        name: z.string(),
+      })
+      .nullable()
+      .openapi({ description: "Null for anonymous callers" }),
+    tier: z.string().openapi({ example: "standard" }),
+    rateLimits: z.object({
+      cheap: RateLimitUsageSchema.openapi({
+        description: "Every rate-limited route except the expensive ones",
+      }),
+      expensive: RateLimitUsageSchema.openapi({
+        description: "POST /v1/download/initiate and /v1/download/start",
+      }),
+    }),
+    dailyFiles: z
+      .object({
+        limit: z.number().int(),
+        used: z.number().int(),
+        remaining: z.number().int(),
+        resetAt: z.string().openapi({ description: "Next midnight UTC" }),
+      })
+      .openapi({
+        description:
+          "Files requested today through job initiations and direct downloads",
+      }),
+  })
+  .openapi("QuotaResponse");
+
+// Dead-letter queue - files that failed for good inside a job
+const DeadLetterIdParamSchema = z.object({
+  id: z.uuid().openapi({
+    param: { name: "id", in: "path" },
+    description: "Dead-letter entry identifier",
+  }),
+});
+
+const DeadLetterSchema = z
+  .object({
+    id: z.uuid(),
+    jobId: z.uuid().openapi({ description: "Job the file failed in" }),
+    file_id: z.number().int(),
+    error: z
+      .string()
+      .openapi({ description: "Last error seen before giving up" }),
+    attempts: z
+      .number()
+      .int()
+      .openapi({ description: "Storage calls made, including retries" }),
+    traceId: z.string().nullable().openapi({
+      description: "Trace ID of the request that created the job",
+    }),
+    status: z.enum(["pending", "replayed"]),
+    failedAt: z.string(),
+    replayedAt: z.string().nullable(),
+    replayJobId: z
+      .uuid()
+      .nullable()
+      .openapi({ description: "Job the entry was replayed into" }),
+  })
+  .openapi("DeadLetter");
+
+const DeadLetterListQuerySchema = z.object({
+  status: z.enum(["pending", "replayed"]).optional().openapi({
+    description: "Only return entries in this state",
+  }),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const DeadLetterListResponseSchema = z
+  .object({
+    items: z.array(DeadLetterSchema),
+    total: z
+      .number()
+      .int()
+      .openapi({ description: "Entries matching the status filter" }),
+  })
+  .openapi("DeadLetterListResponse");
+
+const DeadLetterReplayRequestSchema = z
+  .object({
+    ids: z.array(z.uuid()).min(1).max(1000).optional().openapi({
+      description:
+        "Entries to replay; omit to replay the newest 1000 pending entries",
+    }),
+  })
+  .openapi("DeadLetterReplayRequest");
+
+const DeadLetterReplayResponseSchema = z
+  .object({
+    jobId: z.string().openapi({ description: "Job the files were queued in" }),
+    status: z.enum(["queued"]),
+    totalFileIds: z.number().int(),
+    replayed: z.array(z.uuid()),
+  })
+  .openapi("DeadLetterReplayResponse");
+
+// Files are processed in order, so the processed ones always form a prefix
+const countProcessed = (job: Job): number =>
+  job.files.filter((file) => file.status !== "pending").length;
+
+const toJobProgress = (
+  job: Job,
+  processed = countProcessed(job),
+): z.infer<typeof JobProgressEventSchema> => {
+  const total = job.files.length;
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    progress: {
+      processed,
+      total,
+      percentage: Math.floor((processed / total) * 100),
+    },
+  };
+};
+
+// Map an internal job record to its public status representation
+const toJobStatusResponse = (
+  job: Job,
+): z.infer<typeof JobStatusResponseSchema> => ({
+  ...toJobProgress(job),
+  files: job.files,
+  error: job.error,
+  webhook: job.webhook && {
+    url: job.webhook.url,
+    status: job.webhook.status,
+    deliveries: job.webhook.deliveries,
+  },
+  // Download URLs are signed on request, see resolveJobStatus
+  bundle: job.bundle && {
+    status: job.bundle.status,
+    size: job.bundle.size,
+    downloadUrl: null,
+    expiresAt: null,
+    error: job.bundle.error,
+    completedAt: job.bundle.completedAt,
+  },
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  startedAt: job.startedAt,
+  completedAt: job.completedAt,
+});
+
+// Events shared by the SSE stream and the WebSocket channel
+type JobStreamEvent =
+  | { event: "file"; data: z.infer<typeof JobFileEventSchema> }
+  | {
+      event: "progress";
+      id: number;
+      data: z.infer<typeof JobProgressEventSchema>;
+    }
+  | {
+      event: "completed" | "failed" | "cancelled";
+      id: number;
+      data: z.infer<typeof JobStatusResponseSchema>;
+    };
+
+// What a subscriber has already been told about a job
+interface JobEventCursor {
+  processed: number;
+  status: Job["status"] | null;
+  finished: boolean;
+}
+
+// Collect the events a subscriber has not seen yet and advance its cursor.
+// Event IDs count processed files; the terminal event uses total + 1.
+const collectJobEvents = (
+  job: Job,
+  cursor: JobEventCursor,
+): JobStreamEvent[] => {
+  const events: JobStreamEvent[] = [];
+  if (cursor.finished) return events;
+  const processed = countProcessed(job);
+  while (cursor.processed < processed) {
+    const file = job.files[cursor.processed];
+    cursor.processed++;
+    events.push(
+      { event: "file", data: { jobId: job.jobId, file } },
+      {
+        event: "progress",
+        id: cursor.processed,
+        data: toJobProgress(job, cursor.processed),
+      },
+    );
+    cursor.status = job.status;
+  }
+
+  if (isFinished(job)) {
+    events.push({
+      event: job.status,
+      id: job.files.length + 1,
+      data: toJobStatusResponse(job),
+    });
+    cursor.status = job.status;
+    cursor.finished = true;
+  } else if (job.status !== cursor.status) {
+    events.push({
+      event: "progress",
+      id: cursor.processed,
+      data: toJobProgress(job, cursor.processed),
+    });
+    cursor.status = job.status;
+  }
+  return events;
+};
+
+// Input sanitization for S3 keys - prevent path traversal
+const sanitizeS3Key = (fileId: number): string => {
+  // Ensure fileId is a valid integer within bounds (already validated by Zod)
+  const sanitizedId = Math.floor(Math.abs(fileId));
+  // Construct safe S3 key without user-controlled path components
+  return `downloads/${String(sanitizedId)}.zip`;
+};
+
+// Local and memory drivers hand out signed URLs to GET /v1/storage/object
+const urlSigner = createUrlSigner({
+  endpoint: new URL(
+    "/v1/storage/object",
+    env.STORAGE_PUBLIC_URL ?? `http://localhost:${String(env.PORT)}`,
+  ).toString(),
+  secret: env.STORAGE_SIGNING_SECRET ?? randomBytes(32).toString("hex"),
+});
+
+const createStorageDriver = (): StorageDriver => {
+  const driver = env.STORAGE_DRIVER ?? (env.S3_BUCKET_NAME ? "s3" : "memory");
+  switch (driver) {
+    case "s3":
+      if (!env.S3_BUCKET_NAME) {
+        throw new Error("STORAGE_DRIVER=s3 requires S3_BUCKET_NAME");
+      }
+      return createS3Storage({
+        clientConfig: s3ClientConfig,
+        endpoint: env.S3_ENDPOINT,
+        publicEndpoint: env.S3_PUBLIC_ENDPOINT,
+        bucket: env.S3_BUCKET_NAME,
+        partSizeBytes: env.BUNDLE_PART_SIZE_MB * 1024 * 1024,
+      });
+    case "local":
+      return createLocalStorage({
+        root: env.STORAGE_LOCAL_DIR,
+        signer: urlSigner,
+      });
+    case "memory": {
+      const catalog = env.STORAGE_MOCK_CATALOG
+        ? loadMockCatalog(env.STORAGE_MOCK_CATALOG)
+        : defaultMockCatalog();
+      return createMockStorage({
+        seed: env.STORAGE_MOCK_SEED ?? String(catalog.seed ?? 0),
+        catalog,
+        signer: urlSigner,
+        maxObjectBytes: env.STORAGE_MEMORY_MAX_OBJECT_MB * 1024 * 1024,
+      });
+    }
+  }
+};
+
+const storage = observeStorage(createStorageDriver(), (call) => {
+  recordStorageCall(metrics, call);
+  telemetry.recordStorageCall(call);
+});
+
+const storageRetryOptions = {
+  maxAttempts: env.S3_RETRY_MAX_ATTEMPTS,
+  baseDelayMs: env.S3_RETRY_BASE_DELAY_MS,
+  maxDelayMs: env.S3_RETRY_MAX_DELAY_MS,
+  isRetryable: storage.isTransientError,
+};
+
+// File availability check - a missing object means unavailable, transient
+// errors are retried with backoff and surface as RetryError once attempts run
+// out, permanent errors are thrown as they are
+const checkFileAvailability = async (
+  fileId: number,
+  signal?: AbortSignal,
+): Promise<FileLookup> => {
+  const s3Key = sanitizeS3Key(fileId);
+  const { value: info, attempts } = await retry(
+    () => storage.head(s3Key, signal),
+    { ...storageRetryOptions, signal },
+  );
+  return {
+    available: info !== undefined,
+    s3Key: info ? s3Key : null,
+    size: info?.size ?? null,
+    attempts,
+  };
+};
+
+// Download URL that saves the object under its file name
+const createDownloadUrl = async (
+  s3Key: string,
+): Promise<{ downloadUrl: string; expiresAt: string }> => {
+  const expiresAt = new Date(
+    Date.now() + env.S3_PRESIGN_EXPIRES_SECONDS * 1000,
+  ).toISOString();
+  const downloadUrl = await storage.presign(s3Key, {
+    expiresInSeconds: env.S3_PRESIGN_EXPIRES_SECONDS,
+    filename: path.posix.basename(s3Key),
+  });
+  return { downloadUrl, expiresAt };
+};
+
+// Run fn over items with at most `limit` calls in flight, keeping result order
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = [];
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+};
+
+// Random delay helper for simulating long-running downloads
+const getRandomDelay = (): number => {
+  if (!env.DOWNLOAD_DELAY_ENABLED) return 0;
+  const min = env.DOWNLOAD_DELAY_MIN_MS;
+  const max = env.DOWNLOAD_DELAY_MAX_MS;
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+};
+
+// Rejects early with an AbortError when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  delay(ms, undefined, { signal });
+
+// Webhook dispatcher - notifies callback URLs when jobs finish
+const webhookDispatcher = createWebhookDispatcher({
+  defaultSecret: env.WEBHOOK_SECRET,
+  maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+  backoffBaseMs: env.WEBHOOK_BACKOFF_BASE_MS,
+  backoffMaxMs: env.WEBHOOK_BACKOFF_MAX_MS,
+  timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+  allowedPrivateHosts: env.WEBHOOK_ALLOWED_PRIVATE_HOSTS,
+});
+
+// Job status with a freshly signed bundle URL, for responses that are not streamed
+const resolveJobStatus = async (
+  job: Job,
+): Promise<z.infer<typeof JobStatusResponseSchema>> => {
+  const response = toJobStatusResponse(job);
+  if (response.bundle && job.bundle?.status === "ready" && job.bundle.s3Key) {
+    response.bundle = {
+      ...response.bundle,
+      ...(await createDownloadUrl(job.bundle.s3Key)),
+    };
+  }
+  return response;
+};
+
+// Sends the callback unless an earlier run already settled it
+const notifyJobFinished = async (job: Job): Promise<void> => {
+  const { webhook } = job;
+  if (webhook?.status !== "pending" && webhook?.status !== "interrupted") {
+    return;
+  }
+  const event = `job.${job.status}`;
+  const outcome = await webhookDispatcher.deliver(
+    webhook,
+    event,
+    { event, job: await resolveJobStatus(job) },
+    (delivery) => {
+      webhook.deliveries.push(delivery);
+      jobQueue.update(job);
+    },
+    // One job sends one callback, however many processes it takes
+    job.jobId,
+  );
+  // An interrupted delivery is sent again when the next process starts
+  webhook.status = outcome;
+  jobQueue.update(job);
+  const messages = {
+    delivered: "Delivered webhook",
+    failed: "Gave up on webhook",
+    interrupted: "Webhook interrupted by shutdown",
+  };
+  logger.info(messages[outcome], {
+    jobId: job.jobId,
+    event,
+    attempts: webhook.deliveries.length,
+  });
+};
+
+// Bundler - assembles a job's available files into bundles/<jobId>.zip
+const bundler = createBundler({
+  storage,
+  concurrency: env.BUNDLE_CONCURRENCY,
+  retry: storageRetryOptions,
+});
+
+// Builds the archive unless an earlier run already settled it
+const bundleJobFiles = async (job: Job): Promise<void> => {
+  const { bundle } = job;
+  if (!bundle || bundle.status === "ready" || bundle.status === "failed") {
+    return;
+  }
+  // A job may list the same file ID more than once; the archive holds it once
+  const sourceKeys = [
+    ...new Set(
+      job.files.flatMap((file) =>
+        file.available && file.s3Key ? [file.s3Key] : [],
+      ),
+    ),
+  ];
+
+  if (job.status !== "completed") {
+    bundle.status = "failed";
+    bundle.error = `Job ${job.status}`;
+  } else if (sourceKeys.length === 0) {
+    bundle.status = "failed";
+    bundle.error = "No files available to bundle";
+  } else {
+    bundle.status = "building";
+    jobQueue.update(job);
+    try {
+      const built = await bundler.build(`bundles/${job.jobId}.zip`, sourceKeys);
+      bundle.status = "ready";
+      bundle.s3Key = built.s3Key;
+      bundle.size = built.size;
+      logger.info("Built bundle", {
+        jobId: job.jobId,
+        s3Key: built.s3Key,
+        files: sourceKeys.length,
+        bytes: built.size,
+      });
+    } catch (err) {
+      // Built again when the next process starts
+      if (err instanceof BundleInterruptedError) {
+        bundle.status = "interrupted";
+        jobQueue.update(job);
+        logger.info("Bundle interrupted by shutdown", { jobId: job.jobId });
+        return;
+      }
+      bundle.status = "failed";
+      bundle.error = err instanceof Error ? err.message : String(err);
+      logger.error("Bundle failed", { jobId: job.jobId, err });
+    }
+  }
+  bundle.completedAt = new Date().toISOString();
+  jobQueue.update(job);
+};
+
+// Bundle first so the callback carries the archive URL; a bundle cut short
+// holds the callback back until the next start has built it
+const settleJob = (job: Job): void => {
+  bundleJobFiles(job)
+    .then(async () => {
+      if (job.bundle?.status !== "interrupted") await notifyJobFinished(job);
+    })
+    .catch((err: unknown) => {
+      logger.error("Failed to finalize job", { jobId: job.jobId, err });
+    });
+};
+
+const finalizeJob = (job: Job): void => {
+  metrics.jobsFinished.inc({ status: job.status });
+  telemetry.recordJobFinished(job);
+  settleJob(job);
+};
+
+// Bundles are not needed once their job is gone
+const deleteBundles = (jobs: Job[]): void => {
+  for (const job of jobs) {
+    const key = job.bundle?.s3Key;
+    if (!key) continue;
+    storage.delete(key).catch((err: unknown) => {
+      logger.warn("Failed to delete bundle", { jobId: job.jobId, key, err });
+    });
+  }
+};
+
+// Dead-letter store - shares the job database file when persistent
+const deadLetterStore =
+  env.JOB_STORE === "sqlite"
+    ? createSqliteDeadLetterStore({ filename: env.JOB_STORE_PATH })
+    : createMemoryDeadLetterStore();
+
+const recordDeadLetter = (job: Job, file: FileResult): void => {
+  const entry: DeadLetter = {
+    id: crypto.randomUUID(),
+    jobId: job.jobId,
+    file_id: file.file_id,
+    error: file.error ?? "Unknown error",
+    attempts: file.attempts,
+    traceId: job.traceId,
+    status: "pending",
+    failedAt: new Date().toISOString(),
+    replayedAt: null,
+    replayJobId: null,
+  };
+  deadLetterStore
+    .prune(new Date(Date.now() - env.DEAD_LETTER_RETENTION_MS))
+    .catch((err: unknown) => {
+      logger.error("Failed to prune dead letters", { err });
+    });
+  deadLetterStore.add(entry).then(
+    () => {
+      logger.warn("Recorded dead letter", {
+        jobId: job.jobId,
+        file_id: file.file_id,
+        attempts: file.attempts,
+        error: entry.error,
+      });
+    },
+    (err: unknown) => {
+      logger.error("Failed to record dead letter", {
+        jobId: job.jobId,
+        file_id: file.file_id,
+        err,
+      });
+    },
+  );
+};
+
+// Job store - where download job records are persisted
+const jobStore =
+  env.JOB_STORE === "sqlite"
+    ? createSqliteJobStore({
+        filename: env.JOB_STORE_PATH,
+        logger,
+        flushIntervalMs: env.JOB_STORE_FLUSH_INTERVAL_MS,
+      })
+    : createMemoryJobStore();
+
+// Responses of /v1/download/initiate by Idempotency-Key
+const initiateIdempotency = createIdempotencyCache<
+  z.infer<typeof DownloadInitiateResponseSchema>
+>({
+  windowMs: env.IDEMPOTENCY_WINDOW_MS,
+  maxEntries: env.IDEMPOTENCY_MAX_KEYS,
+});
+
+// Download job queue - processes initiated jobs in the background
+const jobQueue = createJobQueue({
+  store: jobStore,
+  checkAvailability: checkFileAvailability,
+  concurrency: env.JOB_CONCURRENCY,
+  retentionMs: env.JOB_RETENTION_MS,
+  onFileFailed: recordDeadLetter,
+  onFinished: finalizeJob,
+  onPruned: deleteBundles,
+  // Already counted as finished by the process that ran them
+  onUnfinalized: settleJob,
+  logger,
+});
+
+// Dependency probes behind the /health endpoints
+const healthChecker = createHealthChecker({
+  timeoutMs: env.HEALTH_CHECK_TIMEOUT_MS,
+  probes: {
+    // A lightweight lookup on a known path; a missing key still proves access,
+    // while AccessDenied or connection errors reject
+    storage: async (signal) => {
+      await storage.head("__health_check_marker__", signal);
+    },
+    jobStore: () => jobStore.ping(),
+    worker: () =>
+      jobQueue.isRunning()
+        ? Promise.resolve()
+        : Promise.reject(new Error("Job worker is not running")),
+    rateLimitStore: () => rateLimitCounters.ping(),
+  },
+});
+
+// Checks a replica cannot serve without; rate limits fail open instead
+const requiredChecks = ["storage", "jobStore", "worker"] as const;
+
+// Failed checks make the service unhealthy; slow ones only degrade it
+const overallHealth = (
+  results: HealthCheckResult[],
+): z.infer<typeof HealthStatusSchema> => {
+  if (results.some((result) => result.status === "error")) return "unhealthy";
+  return results.some(
+    (result) => result.latencyMs > env.HEALTH_DEGRADED_LATENCY_MS,
+  )
+    ? "degraded"
+    : "healthy";
+};
+
+const uptimeSeconds = (): number =>
+  Math.round((Date.now() - processStartedAt.getTime()) / 1000);
+
+// Routes
+const rootRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["General"],
+  summary: "Root endpoint",
+  description: "Returns a welcome message",
+  responses: {
+    200: {
+      description: "Successful response",
+      content: {
+        "application/json": {
+          schema: MessageResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const healthRoute = createRoute({
+  method: "get",
+  path: "/health",
+  tags: ["Health"],
+  summary: "Health check endpoint",
+  description: "Returns the health status of the service and its dependencies",
+  responses: {
+    200: {
+      description: "Service is healthy",
+      content: {
+        "application/json": {
+          schema: HealthResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Service is unhealthy",
+      content: {
+        "application/json": {
+          schema: HealthResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(rootRoute, (c) => {
+  return c.json({ message: "Hello Hono!" }, 200);
+});
+
+app.openapi(healthRoute, async (c) => {
+  const storageCheck = await healthChecker.check("storage");
+  const status = overallHealth([storageCheck]);
+  return c.json(
+    {
+      status,
+      checks: {
+        storage: storageCheck.status,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    status === "unhealthy" ? 503 : 200,
+  );
+});
+
+const livenessRoute = createRoute({
+  method: "get",
+  path: "/health/live",
+  tags: ["Health"],
+  summary: "Liveness probe",
+  description:
+    "Succeeds while the process can serve requests. Checks no dependencies, so a storage outage does not get the process restarted.",
+  responses: {
+    200: {
+      description: "Process is up",
+      content: {
+        "application/json": {
+          schema: LivenessResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(livenessRoute, (c) => {
+  return c.json({ status: "ok" as const, uptimeSeconds: uptimeSeconds() }, 200);
+});
+
+const readinessRoute = createRoute({
+  method: "get",
+  path: "/health/ready",
+  tags: ["Health"],
+  summary: "Readiness probe",
+  description:
+    "Succeeds when storage is reachable, the job store is open, the job worker is running and the service is not shutting down.",
+  responses: {
+    200: {
+      description: "Service can take traffic",
+      content: {
+        "application/json": {
+          schema: ReadinessResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Service should not receive traffic",
+      content: {
+        "application/json": {
+          schema: ReadinessResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(readinessRoute, async (c) => {
+  const checks = await healthChecker.checkAll([...requiredChecks]);
+  const ready =
+    !draining && Object.values(checks).every((check) => check.status === "ok");
+  return c.json(
+    {
+      status: ready ? ("ready" as const) : ("not_ready" as const),
+      checks: {
+        storage: checks.storage.status,
+        jobStore: checks.jobStore.status,
+        worker: checks.worker.status,
+      },
+      draining,
+    },
+    ready ? 200 : 503,
+  );
+});
+
+const deepHealthRoute = createRoute({
+  method: "get",
+  path: "/health/deep",
+  tags: ["Health"],
+  summary: "Detailed health report",
+  description:
+    "Runs every dependency check and reports its latency, current error and most recent failure, plus queue depth and version and build info. Degraded means every check passed but one was slower than HEALTH_DEGRADED_LATENCY_MS, the rate-limit store is failing (limits then fail open), or the service is shutting down.",
+  responses: {
+    200: {
+      description: "Service is healthy or degraded",
+      content: {
+        "application/json": {
+          schema: DeepHealthResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "A dependency check failed",
+      content: {
+        "application/json": {
+          schema: DeepHealthResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(deepHealthRoute, async (c) => {
+  const checks = await healthChecker.checkAll();
+  const health = overallHealth(requiredChecks.map((name) => checks[name]));
+  const status =
+    health === "healthy" &&
+    (draining || overallHealth([checks.rateLimitStore]) !== "healthy")
+      ? "degraded"
+      : health;
+  return c.json(
+    {
+      status,
+      checks,
+      draining,
+      queue: jobQueue.stats(),
+      build: {
+        version: appVersion,
+        commit: env.GIT_COMMIT_SHA ?? null,
+        builtAt: env.BUILD_TIME ?? null,
+        node: process.version,
+        environment: env.NODE_ENV,
+        storageDriver: storage.name,
+        jobStore: env.JOB_STORE,
+        rateLimitStore: env.RATE_LIMIT_STORE,
+      },
+      startedAt: processStartedAt.toISOString(),
+      uptimeSeconds: uptimeSeconds(),
+      timestamp: new Date().toISOString(),
+    },
+    status === "unhealthy" ? 503 : 200,
+  );
+});
+
+const metricsRoute = createRoute({
+  method: "get",
+  path: "/metrics",
+  tags: ["Health"],
+  summary: "Prometheus metrics",
+  description:
+    "Request counts and latency per route and status, rate-limit rejections, storage call latency and errors, job queue depth, jobs by state and the simulated download delay, in the OpenMetrics text format.",
+  responses: {
+    200: {
+      description: "Metrics in the OpenMetrics text format",
+      content: {
+        "application/openmetrics-text": {
+          schema: z.string(),
+        },
+      },
+    },
+  },
+});
+
+app.openapi(metricsRoute, async (c) => {
+  return c.body(await metrics.registry.metrics(), 200, {
+    "Content-Type": metrics.registry.contentType,
+  });
+});
+
+// Download API Routes
+const downloadInitiateRoute = createRoute({
+  method: "post",
+  path: "/v1/download/initiate",
+  ...authenticated("download:initiate"),
+  tags: ["Download"],
+  summary: "Initiate download job",
+  description:
+    "Queues a download job for multiple IDs. A background worker checks each file in S3 and records per-file results. Send an Idempotency-Key header to make retries safe.",
+  request: {
+    headers: IdempotencyKeyHeaderSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadInitiateRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        "Download job initiated, or the original response when an Idempotency-Key is replayed (Idempotent-Replayed: true)",
+      content: {
+        "application/json": {
+          schema: DownloadInitiateResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description: "Idempotency-Key reused with a different request body",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...authErrorResponses("download:initiate"),
+    ...quotaErrorResponses,
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const downloadCheckRoute = createRoute({
+  method: "post",
+  path: "/v1/download/check",
+  ...authenticated("download:check"),
+  tags: ["Download"],
+  summary: "Check download availability",
+  description:
+    "Checks if a single ID is available for download in S3. Add ?sentry_test=true to trigger an error for Sentry testing.",
+  request: {
+    query: z.object({
+      sentry_test: z.string().optional().openapi({
+        description:
+          "Set to 'true' to trigger an intentional error for Sentry testing",
+      }),
+    }),
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadCheckRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Availability check result",
+      content: {
+        "application/json": {
+          schema: DownloadCheckResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...authErrorResponses("download:check"),
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Storage unavailable after retries",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(downloadInitiateRoute, async (c) => {
+  const body = c.req.valid("json");
+  const { file_ids, callback_url, callback_secret, bundle } = body;
+  const principal = c.get("principal");
+  const idempotencyHeader = c.req.valid("header")["idempotency-key"];
+  // Keys are per principal, so clients cannot replay each other's jobs
+  const idempotencyKey =
+    idempotencyHeader === undefined || !principal
+      ? idempotencyHeader
+      : `${principal.type}:${principal.subject}:${idempotencyHeader}`;
+  const fingerprint = fingerprintRequest(body);
+
+  const claim =
+    idempotencyKey === undefined
+      ? undefined
+      : await initiateIdempotency.claim(idempotencyKey, fingerprint);
+  if (claim?.type === "conflict") {
+    return c.json(
+      {
+        error: "Unprocessable Entity",
+        message:
+          "Idempotency-Key was already used with a different request body",
+        requestId: c.get("requestId"),
+      },
+      422,
+    );
+  }
+  if (claim?.type === "replay") {
+    c.header("Idempotent-Replayed", "true");
+    return c.json(claim.body, 200);
+  }
+
+  // Until complete(), a failure leaves nothing behind, so the key is released
+  // for a retry to run again
+  try {
+    const quotaError = await consumeFileQuota(c, file_ids.length);
+    if (quotaError) {
+      claim?.release();
+      return c.json(quotaError, 429);
+    }
+
+    const job = jobQueue.enqueue(file_ids, {
+      ...(callback_url && {
+        webhook: { url: callback_url, secret: callback_secret ?? null },
+      }),
+      bundle,
+      traceId: currentTraceId(),
+      owner: jobOwner(principal),
+    });
+    const response = {
+      jobId: job.jobId,
+      status: "queued" as const,
+      totalFileIds: file_ids.length,
+    };
+    claim?.complete(response);
+    return c.json(response, 200);
+  } catch (err) {
+    claim?.release();
+    throw err;
+  }
+});
+
+app.openapi(downloadCheckRoute, async (c) => {
+  const { sentry_test } = c.req.valid("query");
+  const { file_id } = c.req.valid("json");
+
+  // Intentional error for Sentry testing (hackathon challenge)
+  if (sentry_test === "true") {
+    throw new Error(
+      `Sentry test error triggered for file_id=${String(file_id)} - This should appear in Sentry!`,
+    );
+  }
+
+  const { available, s3Key, size } = await checkFileAvailability(file_id);
+  return c.json(
+    {
+      file_id,
+      available,
+      s3Key,
+      size,
+    },
+    200,
+  );
+});
+
+const downloadCheckBatchRoute = createRoute({
+  method: "post",
+  path: "/v1/download/check/batch",
+  ...authenticated("download:check"),
+  tags: ["Download"],
+  summary: "Check availability of many files",
+  description: `Checks up to 1000 IDs in one request, running at most ${String(env.CHECK_BATCH_CONCURRENCY)} S3 lookups at a time. Duplicate IDs are checked once. A lookup that fails after retries is reported per ID instead of failing the whole batch.`,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadCheckBatchRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Per-ID results and summary counts",
+      content: {
+        "application/json": {
+          schema: DownloadCheckBatchResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...authErrorResponses("download:check"),
+  },
+});
+
+app.openapi(downloadCheckBatchRoute, async (c) => {
+  const { file_ids } = c.req.valid("json");
+  const fileIds = [...new Set(file_ids)];
+  const { signal } = c.req.raw;
+
+  const results = await mapWithConcurrency(
+    fileIds,
+    env.CHECK_BATCH_CONCURRENCY,
+    async (fileId) => {
+      try {
+        const { available, s3Key, size } = await checkFileAvailability(
+          fileId,
+          signal,
+        );
+        return { file_id: fileId, available, s3Key, size, error: null };
+      } catch (err) {
+        return {
+          file_id: fileId,
+          available: false,
+          s3Key: null,
+          size: null,
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+    },
+  );
+
+  const failed = results.filter((result) => result.error !== null).length;
+  const available = results.filter((result) => result.available).length;
+  logger.info("Batch check", {
+    files: results.length,
+    available,
+    failed,
+  });
+  return c.json(
+    {
+      results,
+      summary: {
+        total: results.length,
+        available,
+        unavailable: results.length - available - failed,
+        failed,
+      },
+    },
+    200,
+  );
+});
+
+const downloadStatusRoute = createRoute({
+  method: "get",
+  path: "/v1/download/status/{jobId}",
+  ...authenticated("jobs:read"),
+  tags: ["Download"],
+  summary: "Get download job status",
+  description:
+    "Returns the current state of a download job with progress and per-file results. Poll this endpoint until the job is completed or failed.",
+  request: {
+    params: JobIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Current job status",
+      content: {
+        "application/json": {
+          schema: JobStatusResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid job ID",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...authErrorResponses("jobs:read"),
+  },
+});
+
+app.openapi(downloadStatusRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const job = await jobQueue.get(jobId);
+  // Other principals' jobs are indistinguishable from missing ones
+  if (!job || !canAccessJob(c.get("principal"), job)) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} does not exist or has expired`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  return c.json(await resolveJobStatus(job), 200);
+});
+
+// Job event stream - Server-Sent Events alternative to polling
+const JOB_EVENTS_HEARTBEAT_MS = 15000;
+
+const jobEventsRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs/{jobId}/events",
+  ...authenticated("jobs:read"),
+  tags: ["Download"],
+  summary: "Stream download job events",
+  description: `Streams job progress as Server-Sent Events.
+    Emits a \`file\` event for every processed file followed by a \`progress\` event, and a final \`completed\`, \`failed\` or \`cancelled\` event carrying the full job status before the stream closes.
+    Event IDs count processed files, so reconnecting with \`Last-Event-ID\` resumes where the client left off. Clients should close the connection after the terminal event.`,
+  request: {
+    params: JobIdParamSchema,
+  },
+  responses: {
+    200: {
+      description:
+        "Event stream (`file`: JobFileEvent, `progress`: JobProgressEvent, `completed`/`failed`/`cancelled`: JobStatusResponse)",
+      content: {
+        "text/event-stream": {
+          schema: z.string(),
+        },
+      },
+    },
+    204: {
+      description: "The client has already received the terminal event",
+    },
+    400: {
+      description: "Invalid job ID",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...authErrorResponses("jobs:read"),
+  },
+});
+
+app.openapi(jobEventsRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const job = await jobQueue.get(jobId);
+  if (!job || !canAccessJob(c.get("principal"), job)) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} does not exist or has expired`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  const total = job.files.length;
+  const lastEventId = Number.parseInt(c.req.header("last-event-id") ?? "", 10);
+  // Resume after the files the client has already seen
+  const cursor: JobEventCursor = {
+    processed: Number.isNaN(lastEventId)
+      ? 0
+      : Math.min(Math.max(lastEventId, 0), total),
+    status: null,
+    finished: false,
+  };
+
+  // A 204 tells EventSource clients to stop reconnecting
+  if (isFinished(job) && lastEventId > total) {
+    return c.body(null, 204);
+  }
+
+  return streamSSE(c, async (stream) => {
+    let finish = (): void => undefined;
+
+    // Send everything that happened since the last flush
+    const flush = async (): Promise<void> => {
+      if (stream.aborted || stream.closed) return;
+      for (const { event, data, ...rest } of collectJobEvents(job, cursor)) {
+        await stream.writeSSE({
+          event,
+          data: JSON.stringify(data),
+          ...("id" in rest && { id: String(rest.id) }),
+        });
+        if (event !== "file" && event !== "progress") finish();
+      }
+    };
+
+    // Serialize flushes so events are never interleaved
+    let flushing = Promise.resolve();
+    const scheduleFlush = (): void => {
+      flushing = flushing.then(flush);
+    };
+
+    const unsubscribe = jobQueue.subscribe(jobId, scheduleFlush);
+    const close = (): void => {
+      finish();
+    };
+    openStreams.add(close);
+    // Comment lines keep idle connections open through proxies
+    const heartbeat = setInterval(() => {
+      void stream.write(": keep-alive\n\n");
+    }, JOB_EVENTS_HEARTBEAT_MS);
+
+    try {
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+        stream.onAbort(resolve);
+        scheduleFlush();
+      });
+      await flushing;
+    } finally {
+      clearInterval(heartbeat);
+      unsubscribe();
+      openStreams.delete(close);
+    }
+  });
+});
+
+// Job WebSocket channel - multiplexed subscriptions over one connection
+const jobSocketPath = "/v1/download/jobs/ws";
+
+app.openAPIRegistry.registerPath({
+  method: "get",
+  path: jobSocketPath,
+  tags: ["Download"],
+  security: authSecurity,
+  summary: "Subscribe to download jobs over WebSocket",
+  description: `Upgrades to a WebSocket that can follow up to ${String(JOB_SOCKET_MAX_SUBSCRIPTIONS)} jobs at once.
+    Send JobSubscriptionRequest messages to subscribe or unsubscribe; the server replies with JobSocketMessage messages.
+    Each subscription starts with a \`subscribed\` snapshot, then \`file\` and \`progress\` messages, and ends with \`completed\`, \`failed\` or \`cancelled\`.
+    Browsers, which cannot set headers, authenticate by offering the subprotocols \`bearer\` and the API key or token, in that order.`,
+  responses: {
+    101: {
+      description: "Switching Protocols",
+    },
+    ...authErrorResponses("jobs:read"),
+  },
+});
+
+app.get(
+  jobSocketPath,
+  requireScope("jobs:read"),
+  upgradeWebSocket((c) => {
+    const principal = c.get("principal");
+    // jobId -> unsubscribe from the job queue
+    const subscriptions = new Map<string, () => void>();
+    let closed = false;
+    let close = (): void => undefined;
+
+    return {
+      onOpen(_event, ws) {
+        // 1001 Going Away: clients should reconnect to another instance
+        close = () => {
+          ws.close(1001, "Server shutting down");
+        };
+        openStreams.add(close);
+      },
+      onMessage(event, ws) {
+        const send = (
+          message: z.infer<typeof JobSocketMessageSchema>,
+        ): void => {
+          ws.send(JSON.stringify(message));
+        };
+
+        const subscribe = async (jobId: string): Promise<void> => {
+          if (subscriptions.has(jobId)) return;
+          const job = await jobQueue.get(jobId);
+          // The lookup may have raced with a close or a duplicate subscribe
+          if (closed || subscriptions.has(jobId)) return;
+          if (!job || !canAccessJob(principal, job)) {
+            send({
+              type: "error",
+              error: "Not Found",
+              message: `Job ${jobId} does not exist or has expired`,
+              jobId,
+            });
+            return;
+          }
+          if (subscriptions.size >= JOB_SOCKET_MAX_SUBSCRIPTIONS) {
+            send({
+              type: "error",
+              error: "Too Many Subscriptions",
+              message: `A connection can follow at most ${String(JOB_SOCKET_MAX_SUBSCRIPTIONS)} jobs`,
+              jobId,
+            });
+            return;
+          }
+
+          send({ type: "subscribed", job: toJobStatusResponse(job) });
+          // Nothing more will happen to a finished job
+          if (isFinished(job)) return;
+
+          const cursor: JobEventCursor = {
+            processed: countProcessed(job),
+            status: job.status,
+            finished: false,
+          };
+          const unsubscribe = jobQueue.subscribe(jobId, () => {
+            for (const jobEvent of collectJobEvents(job, cursor)) {
+              if (jobEvent.event === "file") {
+                send({ type: "file", ...jobEvent.data });
+              } else if (jobEvent.event === "progress") {
+                send({ type: "progress", ...jobEvent.data });
+              } else {
+                send({ type: jobEvent.event, job: jobEvent.data });
+                unsubscribe();
+                subscriptions.delete(jobId);
+              }
+            }
+          });
+          subscriptions.set(jobId, unsubscribe);
+        };
+
+        const unsubscribe = (jobId: string): void => {
+          subscriptions.get(jobId)?.();
+          subscriptions.delete(jobId);
+          send({ type: "unsubscribed", jobId });
+        };
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(
+            typeof event.data === "string" ? event.data : "",
+          );
+        } catch {
+          payload = undefined;
+        }
+        const request = JobSubscriptionRequestSchema.safeParse(payload);
+        if (!request.success) {
+          send({
+            type: "error",
+            error: "Bad Request",
+            message: z.prettifyError(request.error),
+          });
+          return;
+        }
+
+        for (const jobId of request.data.jobIds) {
+          if (request.data.type === "subscribe") {
+            subscribe(jobId).catch((err: unknown) => {
+              logger.error("Job subscription failed", { jobId, err });
+              if (closed) return;
+              send({
+                type: "error",
+                error: "Internal Server Error",
+                message: `Job ${jobId} could not be looked up, please retry`,
+                jobId,
+              });
+            });
+          } else {
+            unsubscribe(jobId);
+          }
+        }
+      },
+      onClose() {
+        closed = true;
+        openStreams.delete(close);
+        for (const unsubscribe of subscriptions.values()) unsubscribe();
+        subscriptions.clear();
+      },
+    };
+  }),
+);
+
+const jobCancelRoute = createRoute({
+  method: "delete",
+  path: "/v1/download/jobs/{jobId}",
+  ...authenticated("download:initiate"),
+  tags: ["Download"],
+  summary: "Cancel download job",
+  description:
+    "Cancels a queued or processing job. In-flight S3 lookups are aborted and unprocessed files stay pending. Finished jobs cannot be cancelled.",
+  request: {
+    params: JobIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Job cancelled",
+      content: {
+        "application/json": {
+          schema: JobStatusResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid job ID",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Job already finished",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...authErrorResponses("download:initiate"),
+  },
+});
+
+app.openapi(jobCancelRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const existing = await jobQueue.get(jobId);
+  const result =
+    existing && canAccessJob(c.get("principal"), existing)
+      ? await jobQueue.cancel(jobId)
+      : undefined;
+  if (!result) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} does not exist or has expired`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  const { job, cancelled } = result;
+  if (!cancelled) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job ${jobId} has already ${job.status === "cancelled" ? "been cancelled" : job.status}`,
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+  return c.json(toJobStatusResponse(job), 200);
+});
 
-const sleep = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+// Download Content Route - streams objects through the service for clients
+// that cannot reach the bucket directly
+const SINGLE_BYTE_RANGE = /^bytes=(\d+-\d*|-\d+)$/;
 
-// Routes
-const rootRoute = createRoute({
+const fileContentRoute = createRoute({
   method: "get",
-  path: "/",
-  tags: ["General"],
-  summary: "Root endpoint",
-  description: "Returns a welcome message",
+  path: "/v1/download/files/{fileId}/content",
+  ...authenticated("download:initiate"),
+  tags: ["Download"],
+  summary: "Stream file content",
+  description:
+    "Streams the file from storage through the service. Supports single byte ranges (206) for resumable downloads and conditional requests with If-None-Match / If-Modified-Since (304).",
+  request: {
+    params: FileIdParamSchema,
+    headers: FileContentHeadersSchema,
+  },
   responses: {
     200: {
-      description: "Successful response",
+      description: "Full file content",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    206: {
+      description: "Requested byte range (see Content-Range)",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    304: {
+      description: "Not modified since the given ETag or date",
+    },
+    400: {
+      description: "Invalid file ID",
       content: {
         "application/json": {
-          schema: MessageResponseSchema,
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "File not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    416: {
+      description: "Range not satisfiable",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Storage unavailable after retries",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
         },
       },
     },
+    ...authErrorResponses("download:initiate"),
   },
 });
 
-const healthRoute = createRoute({
+// Stream a stored object, honouring a single byte range and conditional headers
+const sendObject = async (
+  c: Context,
+  key: string,
+  conditions: z.infer<typeof FileContentHeadersSchema>,
+  filename: string,
+): Promise<Response> => {
+  // Unsupported or malformed ranges are ignored and the full object is sent (RFC 9110)
+  const range =
+    conditions.range && SINGLE_BYTE_RANGE.test(conditions.range)
+      ? conditions.range
+      : undefined;
+  const modifiedSince = conditions["if-modified-since"]
+    ? new Date(conditions["if-modified-since"])
+    : undefined;
+
+  const { signal } = c.req.raw;
+  const { value: result } = await retry(
+    () =>
+      storage.get(key, {
+        range,
+        ifNoneMatch: conditions["if-none-match"],
+        // Invalid dates are ignored like an absent header
+        ifModifiedSince:
+          modifiedSince && !Number.isNaN(modifiedSince.getTime())
+            ? modifiedSince
+            : undefined,
+        signal,
+      }),
+    { ...storageRetryOptions, signal },
+  );
+
+  switch (result.status) {
+    case "not-found":
+      return c.json(
+        {
+          error: "Not Found",
+          message: `File ${filename} does not exist`,
+          requestId: c.get("requestId"),
+        },
+        404,
+      );
+    case "not-modified":
+      return c.body(null, 304, {
+        ...(result.etag && { ETag: result.etag }),
+        ...(result.lastModified && {
+          "Last-Modified": result.lastModified.toUTCString(),
+        }),
+      });
+    case "range-not-satisfiable":
+      return c.json(
+        {
+          error: "Range Not Satisfiable",
+          message: `Range ${String(range)} is outside of file ${filename}`,
+          requestId: c.get("requestId"),
+        },
+        416,
+        result.size === null
+          ? {}
+          : { "Content-Range": `bytes */${String(result.size)}` },
+      );
+    case "ok":
+      break;
+  }
+
+  const { info, contentRange } = result;
+  logger.info("Streaming object", {
+    s3Key: key,
+    range: range ?? "full",
+    bytes: result.contentLength,
+  });
+  return c.body(
+    Readable.toWeb(result.body) as ReadableStream,
+    contentRange ? 206 : 200,
+    {
+      "Content-Type": info.contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Accept-Ranges": "bytes",
+      "Content-Length": String(result.contentLength),
+      ...(contentRange && { "Content-Range": contentRange }),
+      ...(info.etag && { ETag: info.etag }),
+      "Last-Modified": info.lastModified.toUTCString(),
+    },
+  );
+};
+
+app.openapi(fileContentRoute, (c) => {
+  const { fileId } = c.req.valid("param");
+  const s3Key = sanitizeS3Key(fileId);
+  return sendObject(
+    c,
+    s3Key,
+    c.req.valid("header"),
+    path.posix.basename(s3Key),
+  );
+});
+
+// Signed Object Route - download URLs issued by the local and memory drivers
+const storageObjectRoute = createRoute({
   method: "get",
-  path: "/health",
-  tags: ["Health"],
-  summary: "Health check endpoint",
-  description: "Returns the health status of the service and its dependencies",
+  path: "/v1/storage/object",
+  tags: ["Storage"],
+  summary: "Download a signed object",
+  description:
+    "Serves an object from the local or memory storage driver. URLs are issued by /v1/download/start and job bundles, carry an HMAC signature and expire after S3_PRESIGN_EXPIRES_SECONDS. Supports the same range and conditional headers as the content route.",
+  request: {
+    query: StorageObjectQuerySchema,
+    headers: FileContentHeadersSchema,
+  },
   responses: {
     200: {
-      description: "Service is healthy",
+      description: "Full object content",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    206: {
+      description: "Requested byte range (see Content-Range)",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    304: {
+      description: "Not modified since the given ETag or date",
+    },
+    403: {
+      description: "Signature invalid or expired",
       content: {
         "application/json": {
-          schema: HealthResponseSchema,
+          schema: ErrorResponseSchema,
         },
       },
     },
-    503: {
-      description: "Service is unhealthy",
+    404: {
+      description: "Object not found",
       content: {
         "application/json": {
-          schema: HealthResponseSchema,
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    416: {
+      description: "Range not satisfiable",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
         },
       },
     },
   },
 });
 
-app.openapi(rootRoute, (c) => {
-  return c.json({ message: "Hello Hono!" }, 200);
+app.openapi(storageObjectRoute, async (c) => {
+  const params = c.req.valid("query");
+  if (!urlSigner.verify(params)) {
+    return c.json(
+      {
+        error: "Forbidden",
+        message: "Download URL is invalid or has expired",
+        requestId: c.get("requestId"),
+      },
+      403,
+    );
+  }
+  return sendObject(c, params.key, c.req.valid("header"), params.filename);
 });
 
-app.openapi(healthRoute, async (c) => {
-  const storageHealthy = await checkS3Health();
-  const status = storageHealthy ? "healthy" : "unhealthy";
-  const httpStatus = storageHealthy ? 200 : 503;
+// Quota Route - what the caller has left before being limited
+const quotaRoute = createRoute({
+  method: "get",
+  path: "/v1/quota",
+  security: optionalAuthSecurity,
+  tags: ["Quota"],
+  summary: "Get remaining allowance",
+  description:
+    "Reports the caller's rate-limit tier, the state of both request buckets and today's file quota. Anonymous callers are limited per client address.",
+  responses: {
+    200: {
+      description: "Current allowance; this request is already counted",
+      content: {
+        "application/json": {
+          schema: QuotaResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(quotaRoute, async (c) => {
+  const principal = c.get("principal");
+  const key = rateLimitKey(c);
+  const { name: tier, limits } = rateLimitTier(c);
+  const bucketUsage = async (bucket: RateLimitBucket) => {
+    const info = await rateLimitStores[bucket].get?.(key);
+    const used = info?.totalHits ?? 0;
+    return {
+      limit: limits[bucket],
+      used,
+      remaining: Math.max(limits[bucket] - used, 0),
+      windowMs: env.RATE_LIMIT_WINDOW_MS,
+      resetAt: info?.resetTime?.toISOString() ?? null,
+    };
+  };
+  const dailyFiles = await fileQuota.usage(key, limits.dailyFiles);
   return c.json(
     {
-      status,
-      checks: {
-        storage: storageHealthy ? "ok" : "error",
+      principal: principal
+        ? {
+            type: principal.type,
+            subject: principal.subject,
+            name: principal.name,
+          }
+        : null,
+      tier,
+      rateLimits: {
+        cheap: await bucketUsage("cheap"),
+        expensive: await bucketUsage("expensive"),
+      },
+      dailyFiles: {
+        ...dailyFiles,
+        resetAt: dailyFiles.resetAt.toISOString(),
       },
     },
-    httpStatus,
+    200,
   );
 });
 
-// Download API Routes
-const downloadInitiateRoute = createRoute({
-  method: "post",
-  path: "/v1/download/initiate",
-  tags: ["Download"],
-  summary: "Initiate download job",
-  description: "Initiates a download job for multiple IDs",
+// Admin Routes - dead-letter queue inspection and replay
+const deadLetterListRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/dead-letters",
+  ...authenticated("admin"),
+  tags: ["Admin"],
+  summary: "List dead-lettered files",
+  description:
+    "Lists files whose lookups failed for good inside a job, newest first, with the last error, attempt count and trace ID.",
   request: {
-    body: {
+    query: DeadLetterListQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Dead-letter entries",
       content: {
         "application/json": {
-          schema: DownloadInitiateRequestSchema,
+          schema: DeadLetterListResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid query",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
         },
       },
     },
+    ...authErrorResponses("admin"),
+  },
+});
+
+const deadLetterGetRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/dead-letters/{id}",
+  ...authenticated("admin"),
+  tags: ["Admin"],
+  summary: "Inspect dead-lettered file",
+  request: {
+    params: DeadLetterIdParamSchema,
   },
   responses: {
     200: {
-      description: "Download job initiated",
+      description: "Dead-letter entry",
       content: {
         "application/json": {
-          schema: DownloadInitiateResponseSchema,
+          schema: DeadLetterSchema,
         },
       },
     },
     400: {
-      description: "Invalid request",
+      description: "Invalid entry ID",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    404: {
+      description: "Entry not found",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
+    ...authErrorResponses("admin"),
   },
 });
 
-const downloadCheckRoute = createRoute({
+const deadLetterReplayRoute = createRoute({
   method: "post",
-  path: "/v1/download/check",
-  tags: ["Download"],
-  summary: "Check download availability",
+  path: "/v1/admin/dead-letters/replay",
+  ...authenticated("admin"),
+  tags: ["Admin"],
+  summary: "Replay dead-lettered files",
   description:
-    "Checks if a single ID is available for download in S3. Add ?sentry_test=true to trigger an error for Sentry testing.",
+    "Queues the files of pending dead-letter entries in a new download job and marks the entries as replayed. Files that fail again are dead-lettered anew.",
   request: {
-    query: z.object({
-      sentry_test: z.string().optional().openapi({
-        description:
-          "Set to 'true' to trigger an intentional error for Sentry testing",
-      }),
-    }),
     body: {
       content: {
         "application/json": {
-          schema: DownloadCheckRequestSchema,
+          schema: DeadLetterReplayRequestSchema,
         },
       },
     },
   },
   responses: {
     200: {
-      description: "Availability check result",
+      description: "Replay job queued",
       content: {
         "application/json": {
-          schema: DownloadCheckResponseSchema,
+          schema: DeadLetterReplayResponseSchema,
         },
       },
     },
@@ -477,46 +3297,126 @@ const downloadCheckRoute = createRoute({
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    404: {
+      description: "Entry not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Entry already replayed, or nothing to replay",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
+    ...authErrorResponses("admin"),
   },
 });
 
-app.openapi(downloadInitiateRoute, (c) => {
-  const { file_ids } = c.req.valid("json");
-  const jobId = crypto.randomUUID();
-  return c.json(
-    {
-      jobId,
-      status: "queued" as const,
-      totalFileIds: file_ids.length,
-    },
-    200,
-  );
+app.openapi(deadLetterListRoute, async (c) => {
+  const query = c.req.valid("query");
+  return c.json(await deadLetterStore.list(query), 200);
 });
 
-app.openapi(downloadCheckRoute, async (c) => {
-  const { sentry_test } = c.req.valid("query");
-  const { file_id } = c.req.valid("json");
+app.openapi(deadLetterGetRoute, async (c) => {
+  const { id } = c.req.valid("param");
+  const entry = await deadLetterStore.get(id);
+  if (!entry) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Dead-letter entry ${id} does not exist`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  return c.json(entry, 200);
+});
 
-  // Intentional error for Sentry testing (hackathon challenge)
-  if (sentry_test === "true") {
-    throw new Error(
-      `Sentry test error triggered for file_id=${String(file_id)} - This should appear in Sentry!`,
+app.openapi(deadLetterReplayRoute, async (c) => {
+  const { ids } = c.req.valid("json");
+  let entries: DeadLetter[];
+  if (ids) {
+    const found = await Promise.all(
+      [...new Set(ids)].map(async (id) => ({
+        id,
+        entry: await deadLetterStore.get(id),
+      })),
+    );
+    const missing = found.filter(({ entry }) => !entry).map(({ id }) => id);
+    if (missing.length > 0) {
+      return c.json(
+        {
+          error: "Not Found",
+          message: `Dead-letter entries do not exist: ${missing.join(", ")}`,
+          requestId: c.get("requestId"),
+        },
+        404,
+      );
+    }
+    entries = found.flatMap(({ entry }) => (entry ? [entry] : []));
+  } else {
+    ({ items: entries } = await deadLetterStore.list({
+      status: "pending",
+      limit: 1000,
+      offset: 0,
+    }));
+  }
+
+  const replayedAlready = entries.filter((entry) => entry.status !== "pending");
+  if (replayedAlready.length > 0 || entries.length === 0) {
+    return c.json(
+      {
+        error: "Conflict",
+        message:
+          entries.length === 0
+            ? "No pending dead-letter entries to replay"
+            : `Dead-letter entries were already replayed: ${replayedAlready.map((entry) => entry.id).join(", ")}`,
+        requestId: c.get("requestId"),
+      },
+      409,
     );
   }
 
-  const s3Result = await checkS3Availability(file_id);
+  // Claim the entries before queueing, so a concurrent replay of the same
+  // entries gets none of them instead of queueing a second job
+  const jobId = crypto.randomUUID();
+  const replayed = await deadLetterStore.markReplayed(
+    entries.map((entry) => entry.id),
+    jobId,
+  );
+  if (replayed.length === 0) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: "Dead-letter entries were already replayed",
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+  const fileIds = [...new Set(replayed.map((entry) => entry.file_id))];
+  const job = jobQueue.enqueue(fileIds, {
+    jobId,
+    traceId: currentTraceId(),
+    owner: jobOwner(c.get("principal")),
+  });
+  logger.info("Replayed dead letters", {
+    jobId: job.jobId,
+    entries: replayed.length,
+    files: fileIds.length,
+  });
   return c.json(
     {
-      file_id,
-      ...s3Result,
+      jobId: job.jobId,
+      status: "queued" as const,
+      totalFileIds: fileIds.length,
+      replayed: replayed.map((entry) => entry.id),
     },
     200,
   );
@@ -526,6 +3426,7 @@ app.openapi(downloadCheckRoute, async (c) => {
 const downloadStartRoute = createRoute({
   method: "post",
   path: "/v1/download/start",
+  ...authenticated("download:initiate"),
   tags: ["Download"],
   summary: "Start file download (long-running)",
   description: `Starts a file download with simulated processing delay.
@@ -557,6 +3458,8 @@ const downloadStartRoute = createRoute({
         },
       },
     },
+    ...authErrorResponses("download:initiate"),
+    ...quotaErrorResponses,
     500: {
       description: "Internal server error",
       content: {
@@ -565,39 +3468,76 @@ const downloadStartRoute = createRoute({
         },
       },
     },
+    503: {
+      description: "Storage unavailable after retries",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
   },
 });
 
 app.openapi(downloadStartRoute, async (c) => {
   const { file_id } = c.req.valid("json");
+  const quotaError = await consumeFileQuota(c, 1);
+  if (quotaError) return c.json(quotaError, 429);
   const startTime = Date.now();
 
   // Get random delay and log it
   const delayMs = getRandomDelay();
-  const delaySec = (delayMs / 1000).toFixed(1);
-  const minDelaySec = (env.DOWNLOAD_DELAY_MIN_MS / 1000).toFixed(0);
-  const maxDelaySec = (env.DOWNLOAD_DELAY_MAX_MS / 1000).toFixed(0);
-  console.log(
-    `[Download] Starting file_id=${String(file_id)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s) | enabled=${String(env.DOWNLOAD_DELAY_ENABLED)}`,
-  );
-
-  // Simulate long-running download process
-  await sleep(delayMs);
+  metrics.simulatedDelay.observe(delayMs / 1000);
+  logger.info("Starting download", {
+    file_id,
+    delayMs,
+    delayEnabled: env.DOWNLOAD_DELAY_ENABLED,
+  });
 
-  // Check if file is available in S3
-  const s3Result = await checkS3Availability(file_id);
+  // Simulate long-running download process; stop early if the client goes away
+  const { signal } = c.req.raw;
+  let s3Result: Awaited<ReturnType<typeof checkFileAvailability>>;
+  try {
+    await sleep(delayMs, signal);
+    // Check if file is available in S3
+    s3Result = await checkFileAvailability(file_id, signal);
+  } catch (err) {
+    if (!signal.aborted) throw err;
+    const abortedAfterMs = Date.now() - startTime;
+    logger.info("Download aborted by client", {
+      file_id,
+      durationMs: abortedAfterMs,
+    });
+    // Nobody is listening any more; the response only completes the handler
+    return c.json(
+      {
+        file_id,
+        status: "failed" as const,
+        downloadUrl: null,
+        expiresAt: null,
+        size: null,
+        processingTimeMs: abortedAfterMs,
+        message: "Download aborted by client",
+      },
+      200,
+    );
+  }
   const processingTimeMs = Date.now() - startTime;
 
-  console.log(
-    `[Download] Completed file_id=${String(file_id)}, actual_time=${String(processingTimeMs)}ms, available=${String(s3Result.available)}`,
-  );
+  logger.info("Completed download", {
+    file_id,
+    durationMs: processingTimeMs,
+    available: s3Result.available,
+  });
 
-  if (s3Result.available) {
+  if (s3Result.available && s3Result.s3Key) {
+    const { downloadUrl, expiresAt } = await createDownloadUrl(s3Result.s3Key);
     return c.json(
       {
         file_id,
         status: "completed" as const,
-        downloadUrl: `https://storage.example.com/${s3Result.s3Key ?? ""}?token=${crypto.randomUUID()}`,
+        downloadUrl,
+        expiresAt,
         size: s3Result.size,
         processingTimeMs,
         message: `Download ready after ${(processingTimeMs / 1000).toFixed(1)} seconds`,
@@ -610,6 +3550,7 @@ app.openapi(downloadStartRoute, async (c) => {
         file_id,
         status: "failed" as const,
         downloadUrl: null,
+        expiresAt: null,
         size: null,
         processingTimeMs,
         message: `File not found after ${(processingTimeMs / 1000).toFixed(1)} seconds of processing`,
@@ -636,31 +3577,86 @@ if (env.NODE_ENV !== "production") {
 }
 
 // Graceful shutdown handler
-const gracefulShutdown = (server: ServerType) => (signal: string) => {
-  console.log(`\n${signal} received. Starting graceful shutdown...`);
-
-  // Stop accepting new connections
-  server.close(() => {
-    console.log("HTTP server closed");
-
-    // Shutdown OpenTelemetry to flush traces
-    otelSDK
-      .shutdown()
-      .then(() => {
-        console.log("OpenTelemetry SDK shut down");
-      })
-      .catch((err: unknown) => {
-        console.error("Error shutting down OpenTelemetry:", err);
-      })
-      .finally(() => {
-        // Destroy S3 client
-        s3Client.destroy();
-        console.log("S3 client destroyed");
-        console.log("Graceful shutdown completed");
+const gracefulShutdown = (server: ServerType) => async (signal: string) => {
+  // A second signal (Ctrl-C twice, or one sent to the whole process group)
+  // must not run the steps again
+  if (draining) {
+    logger.warn("Shutdown already in progress", { signal });
+    return;
+  }
+  logger.info("Starting graceful shutdown", { signal });
+  draining = true;
+
+  // Stop accepting new connections, and end the streams that would otherwise
+  // keep theirs open
+  for (const close of openStreams) close();
+  // server.close() only drops connections that are idle when it is called;
+  // keep dropping the ones that go idle later instead of waiting out their
+  // keep-alive timeout
+  const sweep = setInterval(() => {
+    if ("closeIdleConnections" in server) server.closeIdleConnections();
+  }, 100);
+  let graceTimer: NodeJS.Timeout | undefined;
+  const closedInTime = await Promise.race([
+    new Promise<boolean>((resolve) => {
+      server.close(() => {
+        resolve(true);
       });
-  });
+    }),
+    new Promise<boolean>((resolve) => {
+      graceTimer = setTimeout(() => {
+        resolve(false);
+      }, env.SHUTDOWN_GRACE_MS);
+    }),
+  ]);
+  clearTimeout(graceTimer);
+  clearInterval(sweep);
+  if (closedInTime) {
+    logger.info("HTTP server closed");
+  } else {
+    // Upgraded sockets are not tracked by the server, so carry on without
+    // waiting for the close callback
+    logger.warn("Dropping connections still open after the grace period", {
+      graceMs: env.SHUTDOWN_GRACE_MS,
+    });
+    if ("closeAllConnections" in server) server.closeAllConnections();
+  }
+
+  // Let in-flight download jobs finish, then shutdown OpenTelemetry to flush
+  // traces. Every step runs even if an earlier one failed.
+  const steps: [step: string, done: string, run: () => Promise<void>][] = [
+    ["job queue", "Job queue drained", () => jobQueue.stop()],
+    ["bundler", "Bundler stopped", () => bundler.stop()],
+    ["webhooks", "Webhook dispatcher stopped", () => webhookDispatcher.stop()],
+    ["job store", "Job store closed", () => jobStore.close()],
+    [
+      "dead-letter store",
+      "Dead-letter store closed",
+      () => deadLetterStore.close(),
+    ],
+    ["storage", "Storage driver closed", () => storage.close()],
+    [
+      "rate-limit store",
+      "Rate-limit store closed",
+      () => rateLimitCounters.close(),
+    ],
+    // Records from here on only reach stdout
+    ["OpenTelemetry", "OpenTelemetry SDK shut down", () => otelSDK.shutdown()],
+  ];
+  for (const [step, done, run] of steps) {
+    try {
+      await run();
+      logger.info(done);
+    } catch (err) {
+      logger.error("Shutdown step failed", { step, err });
+    }
+  }
+  logger.info("Graceful shutdown completed");
 };
 
+// Resume jobs left unfinished by a previous run before accepting traffic
+await jobQueue.start();
+
 // Start server
 const server = serve(
   {
@@ -668,19 +3664,24 @@ const server = serve(
     port: env.PORT,
   },
   (info) => {
-    console.log(`Server is running on http://localhost:${String(info.port)}`);
-    console.log(`Environment: ${env.NODE_ENV}`);
-    if (env.NODE_ENV !== "production") {
-      console.log(`API docs: http://localhost:${String(info.port)}/docs`);
-    }
+    logger.info("Server is running", {
+      url: `http://localhost:${String(info.port)}`,
+      environment: env.NODE_ENV,
+      ...(env.NODE_ENV !== "production" && {
+        docs: `http://localhost:${String(info.port)}/docs`,
+      }),
+    });
   },
 );
 
+// Attach the WebSocket upgrade handler to the HTTP server
+nodeWebSocket.injectWebSocket(server);
+
 // Register shutdown handlers
 const shutdown = gracefulShutdown(server);
 process.on("SIGTERM", () => {
-  shutdown("SIGTERM");
+  void shutdown("SIGTERM");
 });
 process.on("SIGINT", () => {
-  shutdown("SIGINT");
+  void shutdown("SIGINT");
 });
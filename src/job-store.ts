@@ -0,0 +1,233 @@
+// Job persistence - pluggable backends for download job records
+import { DatabaseSync } from "node:sqlite";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import { isUnfinalized } from "./jobs.ts";
+import type { Job } from "./jobs.ts";
+import type { Logger } from "./logger.ts";
+
+export interface JobStore {
+  get: (jobId: string) => Promise<Job | undefined>;
+  // May be buffered; call flush() to force pending writes out
+  save: (job: Job) => Promise<void>;
+  // Jobs that were queued or processing, oldest first
+  listUnfinished: () => Promise<Job[]>;
+  // Finished jobs whose bundle or webhook was not settled (see isUnfinalized),
+  // oldest first
+  listUnfinalized: () => Promise<Job[]>;
+  // Delete finished jobs last updated before the cutoff; resolves with them
+  prune: (before: Date) => Promise<Job[]>;
+  flush: () => Promise<void>;
+  // Rejects when the store cannot serve reads, such as after close()
+  ping: () => Promise<void>;
+  // Later calls do nothing
+  close: () => Promise<void>;
+}
+
+const UNFINISHED_STATUSES = new Set<Job["status"]>(["queued", "processing"]);
+
+// In-memory store - state is lost on restart, intended for tests and development
+export const createMemoryJobStore = (): JobStore => {
+  // Saves keep the queue's own object and reads hand out copies, so the worker
+  // does not copy a whole job every time it finishes one of its files
+  const jobs = new Map<string, Job>();
+  let closed = false;
+
+  return {
+    get: (jobId) => {
+      const job = jobs.get(jobId);
+      return Promise.resolve(job && structuredClone(job));
+    },
+    save: (job) => {
+      jobs.set(job.jobId, job);
+      return Promise.resolve();
+    },
+    listUnfinished: () =>
+      Promise.resolve(
+        [...jobs.values()]
+          .filter((job) => UNFINISHED_STATUSES.has(job.status))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .map((job) => structuredClone(job)),
+      ),
+    listUnfinalized: () =>
+      Promise.resolve(
+        [...jobs.values()]
+          .filter(isUnfinalized)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .map((job) => structuredClone(job)),
+      ),
+    prune: (before) => {
+      const cutoff = before.toISOString();
+      const pruned: Job[] = [];
+      for (const [jobId, job] of jobs) {
+        if (!UNFINISHED_STATUSES.has(job.status) && job.updatedAt < cutoff) {
+          jobs.delete(jobId);
+          pruned.push(job);
+        }
+      }
+      return Promise.resolve(pruned);
+    },
+    flush: () => Promise.resolve(),
+    ping: () =>
+      closed
+        ? Promise.reject(new Error("Job store is closed"))
+        : Promise.resolve(),
+    close: () => {
+      closed = true;
+      jobs.clear();
+      return Promise.resolve();
+    },
+  };
+};
+
+export interface SqliteJobStoreOptions {
+  // Database file path; parent directories are created if missing
+  filename: string;
+  // How often buffered writes are committed
+  flushIntervalMs: number;
+  logger: Logger;
+}
+
+// SQLite file store - durable across restarts on a single node.
+// Writes are coalesced per job and committed in one transaction per interval,
+// so a 1000-file job does not rewrite its record on every processed file.
+export const createSqliteJobStore = (
+  options: SqliteJobStoreOptions,
+): JobStore => {
+  mkdirSync(path.dirname(options.filename), { recursive: true });
+  const db = new DatabaseSync(options.filename);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA synchronous = NORMAL;
+    CREATE TABLE IF NOT EXISTS jobs (
+      job_id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS jobs_status_updated_at ON jobs (status, updated_at);
+  `);
+
+  const selectJob = db.prepare("SELECT data FROM jobs WHERE job_id = ?");
+  const selectUnfinished = db.prepare(
+    "SELECT data FROM jobs WHERE status IN ('queued', 'processing') ORDER BY created_at",
+  );
+  // Same condition as isUnfinalized
+  const selectUnfinalized = db.prepare(`
+    SELECT data FROM jobs
+    WHERE status NOT IN ('queued', 'processing')
+      AND (
+        json_extract(data, '$.bundle.status') IN ('pending', 'building', 'interrupted')
+        OR json_extract(data, '$.webhook.status') IN ('pending', 'interrupted')
+      )
+    ORDER BY created_at
+  `);
+  const upsertJob = db.prepare(`
+    INSERT INTO jobs (job_id, status, created_at, updated_at, data)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (job_id) DO UPDATE SET
+      status = excluded.status,
+      updated_at = excluded.updated_at,
+      data = excluded.data
+  `);
+  const deleteFinished = db.prepare(
+    "DELETE FROM jobs WHERE status NOT IN ('queued', 'processing') AND updated_at < ? RETURNING data",
+  );
+
+  // Jobs saved since the last flush; serialized at flush time so only the latest state is written
+  const dirty = new Map<string, Job>();
+
+  const flushSync = (): void => {
+    if (dirty.size === 0) return;
+    db.exec("BEGIN");
+    try {
+      for (const job of dirty.values()) {
+        upsertJob.run(
+          job.jobId,
+          job.status,
+          job.createdAt,
+          job.updatedAt,
+          JSON.stringify(job),
+        );
+      }
+      db.exec("COMMIT");
+      dirty.clear();
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  };
+
+  const timer = setInterval(() => {
+    try {
+      flushSync();
+    } catch (err) {
+      options.logger.error("Failed to flush jobs", { err });
+    }
+  }, options.flushIntervalMs);
+  // Pending writes must not keep the process alive on their own
+  timer.unref();
+
+  const parse = (row: Record<string, unknown> | undefined): Job | undefined =>
+    row ? (JSON.parse(String(row.data)) as Job) : undefined;
+
+  // node:sqlite is synchronous; surface its errors as rejections
+  const settle = <T>(operation: () => T): Promise<T> => {
+    try {
+      return Promise.resolve(operation());
+    } catch (err) {
+      return Promise.reject(err as Error);
+    }
+  };
+
+  return {
+    get: (jobId) =>
+      settle(() => {
+        const buffered = dirty.get(jobId);
+        if (buffered) return structuredClone(buffered);
+        return parse(selectJob.get(jobId));
+      }),
+    save: (job) => {
+      dirty.set(job.jobId, job);
+      return Promise.resolve();
+    },
+    listUnfinished: () =>
+      settle(() => {
+        flushSync();
+        return selectUnfinished
+          .all()
+          .map(parse)
+          .filter((job) => job !== undefined);
+      }),
+    listUnfinalized: () =>
+      settle(() => {
+        flushSync();
+        return selectUnfinalized
+          .all()
+          .map(parse)
+          .filter((job) => job !== undefined);
+      }),
+    prune: (before) =>
+      settle(() => {
+        // Buffered writes would otherwise bring deleted jobs back
+        flushSync();
+        return deleteFinished
+          .all(before.toISOString())
+          .map(parse)
+          .filter((job) => job !== undefined);
+      }),
+    flush: () => settle(flushSync),
+    ping: () =>
+      settle(() => {
+        db.prepare("SELECT 1").get();
+      }),
+    close: () =>
+      settle(() => {
+        if (!db.isOpen) return;
+        clearInterval(timer);
+        flushSync();
+        db.close();
+      }),
+  };
+};
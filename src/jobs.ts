@@ -0,0 +1,400 @@
+// Download job subsystem - in-process queue with a background worker
+import { EventEmitter } from "node:events";
+import type { Principal } from "./auth.ts";
+import type { JobStore } from "./job-store.ts";
+import { withLogContext } from "./logger.ts";
+import type { Logger } from "./logger.ts";
+import { failedAttempts } from "./retry.ts";
+import type { WebhookDelivery, WebhookTarget } from "./webhooks.ts";
+
+export type TerminalJobStatus = "completed" | "failed" | "cancelled";
+export type JobStatus = "queued" | "processing" | TerminalJobStatus;
+
+export type JobOwner = Pick<Principal, "type" | "subject">;
+
+export interface FileAvailability {
+  available: boolean;
+  s3Key: string | null;
+  size: number | null;
+}
+
+export interface FileLookup extends FileAvailability {
+  // Storage calls made, including retries
+  attempts: number;
+}
+
+export interface FileResult extends FileLookup {
+  file_id: number;
+  status: "pending" | "completed" | "failed";
+  error: string | null;
+}
+
+export interface JobWebhook extends WebhookTarget {
+  // "interrupted" when a shutdown cut the delivery short; sent again on start
+  status: "pending" | "delivered" | "failed" | "interrupted";
+  deliveries: WebhookDelivery[];
+}
+
+export interface JobBundle {
+  // "interrupted" when a shutdown cut the build short; built again on start
+  status: "pending" | "building" | "ready" | "failed" | "interrupted";
+  s3Key: string | null;
+  // Archive size in bytes
+  size: number | null;
+  error: string | null;
+  completedAt: string | null;
+}
+
+export interface Job {
+  jobId: string;
+  status: JobStatus;
+  files: FileResult[];
+  error: string | null;
+  webhook: JobWebhook | null;
+  // Single ZIP archive of the available files, when requested
+  bundle: JobBundle | null;
+  // Trace of the request that created the job
+  traceId: string | null;
+  // Principal that created the job; null when authentication is disabled
+  owner: JobOwner | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface JobQueueOptions {
+  // Where job records are persisted
+  store: JobStore;
+  logger: Logger;
+  // Resolves a single file ID against storage; must reject once the signal aborts
+  checkAvailability: (
+    fileId: number,
+    signal: AbortSignal,
+  ) => Promise<FileLookup>;
+  // Maximum number of jobs processed simultaneously
+  concurrency: number;
+  // How long finished jobs are kept before being pruned
+  retentionMs: number;
+  // Called when a file lookup fails for good (retries exhausted or not retryable)
+  onFileFailed?: (job: Job, file: FileResult) => void;
+  // Called once when a job reaches a terminal state
+  onFinished?: (job: Job) => void;
+  // Called with finished jobs removed after the retention window
+  onPruned?: (jobs: Job[]) => void;
+  // Called on start for finished jobs a previous process left unfinalized
+  onUnfinalized?: (job: Job) => void;
+}
+
+export interface EnqueueOptions {
+  // Preassigned ID, for callers that record it before the job exists
+  jobId?: string;
+  webhook?: WebhookTarget;
+  bundle?: boolean;
+  traceId?: string | null;
+  owner?: JobOwner | null;
+}
+
+export interface JobQueueStats {
+  // Jobs waiting for a free worker
+  queued: number;
+  processing: number;
+}
+
+export interface JobQueue {
+  enqueue: (fileIds: number[], enqueueOptions?: EnqueueOptions) => Job;
+  get: (jobId: string) => Promise<Job | undefined>;
+  update: (job: Job) => void;
+  // Cancel a queued or processing job; finished jobs are returned unchanged
+  cancel: (
+    jobId: string,
+  ) => Promise<{ job: Job; cancelled: boolean } | undefined>;
+  // Invoke the listener whenever the job changes; returns an unsubscribe function
+  subscribe: (jobId: string, listener: (job: Job) => void) => () => void;
+  stats: () => JobQueueStats;
+  // Whether the worker has started and has not been stopped
+  isRunning: () => boolean;
+  // Re-queue jobs left unfinished by a previous process, hand back the ones it
+  // did not finalize, and start processing
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+export const isFinished = (
+  job: Job,
+): job is Job & { status: TerminalJobStatus } =>
+  job.status === "completed" ||
+  job.status === "failed" ||
+  job.status === "cancelled";
+
+// A finished job whose bundle or webhook was never settled, because the
+// process stopped or crashed before the build or delivery ended
+export const isUnfinalized = (job: Job): boolean =>
+  isFinished(job) &&
+  (job.bundle?.status === "pending" ||
+    job.bundle?.status === "building" ||
+    job.bundle?.status === "interrupted" ||
+    job.webhook?.status === "pending" ||
+    job.webhook?.status === "interrupted");
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  // Queued and processing jobs; finished ones are only kept in the store
+  const active = new Map<string, Job>();
+  const pending: string[] = [];
+  const running = new Set<Promise<void>>();
+  // Aborts the in-flight storage call of a processing job when it is cancelled
+  const controllers = new Map<string, AbortController>();
+  const events = new EventEmitter();
+  // Every open stream adds a listener, so lift the default cap of 10
+  events.setMaxListeners(0);
+  let started = false;
+  let stopped = false;
+  const { logger } = options;
+
+  const persist = (job: Job): void => {
+    options.store.save(job).catch((err: unknown) => {
+      logger.error("Failed to save job", { jobId: job.jobId, err });
+    });
+  };
+
+  const touch = (job: Job): void => {
+    job.updatedAt = new Date().toISOString();
+    persist(job);
+    events.emit(job.jobId, job);
+  };
+
+  // Drop finished jobs that are older than the retention window
+  const prune = (): void => {
+    options.store
+      .prune(new Date(Date.now() - options.retentionMs))
+      .then((jobs) => {
+        if (jobs.length > 0) options.onPruned?.(jobs);
+      })
+      .catch((err: unknown) => {
+        logger.error("Failed to prune jobs", { err });
+      });
+  };
+
+  const finish = (job: Job): void => {
+    active.delete(job.jobId);
+    options.onFinished?.(job);
+  };
+
+  const processJob = async (job: Job): Promise<void> => {
+    const controller = new AbortController();
+    controllers.set(job.jobId, controller);
+    // cancel() records the terminal state itself, so the worker just stops
+    const cancelled = (): boolean => controller.signal.aborted;
+    job.status = "processing";
+    job.startedAt ??= new Date().toISOString();
+    touch(job);
+    logger.info("Processing job", { files: job.files.length });
+
+    // Files already processed before a restart are skipped
+    for (const file of job.files) {
+      if (file.status !== "pending") continue;
+      // Leave the job processing so it resumes on the next start
+      if (stopped) return;
+      if (cancelled()) return;
+      try {
+        const result = await options.checkAvailability(
+          file.file_id,
+          controller.signal,
+        );
+        Object.assign(file, result, { status: "completed" });
+      } catch (err) {
+        if (cancelled()) return;
+        file.status = "failed";
+        file.error = errorMessage(err);
+        file.attempts = failedAttempts(err);
+        options.onFileFailed?.(job, file);
+      }
+      touch(job);
+    }
+
+    // A lookup that ignored the abort may have resolved after cancel()
+    if (cancelled()) return;
+    if (job.files.every((file) => file.status === "failed")) {
+      job.status = "failed";
+      job.error = "All file lookups failed";
+    } else {
+      job.status = "completed";
+    }
+    job.completedAt = new Date().toISOString();
+    touch(job);
+
+    const available = job.files.filter((file) => file.available).length;
+    logger.info("Finished job", {
+      status: job.status,
+      available,
+      files: job.files.length,
+    });
+    finish(job);
+  };
+
+  // Start queued jobs until the concurrency limit is reached
+  const drain = (): void => {
+    while (!stopped && running.size < options.concurrency) {
+      const jobId = pending.shift();
+      if (jobId === undefined) return;
+      const job = active.get(jobId);
+      if (!job) continue;
+
+      const run = withLogContext({ jobId: job.jobId }, () => processJob(job))
+        .catch((err: unknown) => {
+          if (isFinished(job)) return;
+          job.status = "failed";
+          job.error = errorMessage(err);
+          job.completedAt = new Date().toISOString();
+          touch(job);
+          logger.error("Job failed", { jobId: job.jobId, err });
+          finish(job);
+        })
+        .finally(() => {
+          controllers.delete(job.jobId);
+          running.delete(run);
+          drain();
+        });
+      running.add(run);
+    }
+  };
+
+  const enqueue = (
+    fileIds: number[],
+    enqueueOptions: EnqueueOptions = {},
+  ): Job => {
+    prune();
+    const now = new Date().toISOString();
+    const job: Job = {
+      jobId: enqueueOptions.jobId ?? crypto.randomUUID(),
+      status: "queued",
+      files: fileIds.map((fileId) => ({
+        file_id: fileId,
+        status: "pending",
+        available: false,
+        s3Key: null,
+        size: null,
+        attempts: 0,
+        error: null,
+      })),
+      error: null,
+      webhook: enqueueOptions.webhook
+        ? { ...enqueueOptions.webhook, status: "pending", deliveries: [] }
+        : null,
+      bundle: enqueueOptions.bundle
+        ? {
+            status: "pending",
+            s3Key: null,
+            size: null,
+            error: null,
+            completedAt: null,
+          }
+        : null,
+      traceId: enqueueOptions.traceId ?? null,
+      owner: enqueueOptions.owner ?? null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+      completedAt: null,
+    };
+    active.set(job.jobId, job);
+    persist(job);
+    pending.push(job.jobId);
+    // Defer so the caller observes the job in its queued state
+    setImmediate(drain);
+    return job;
+  };
+
+  // Active jobs are returned live so subscribers observe their progress
+  const get = async (jobId: string): Promise<Job | undefined> =>
+    active.get(jobId) ?? (await options.store.get(jobId));
+
+  // Record out-of-band changes (such as webhook deliveries) and notify subscribers
+  const update = (job: Job): void => {
+    touch(job);
+  };
+
+  const cancel: JobQueue["cancel"] = async (jobId) => {
+    const job = active.get(jobId);
+    if (!job) {
+      const stored = await options.store.get(jobId);
+      return stored && { job: stored, cancelled: false };
+    }
+
+    const index = pending.indexOf(jobId);
+    if (index !== -1) pending.splice(index, 1);
+    job.status = "cancelled";
+    job.completedAt = new Date().toISOString();
+    controllers.get(jobId)?.abort(new Error("Job cancelled"));
+    touch(job);
+
+    const processed = job.files.filter(
+      (file) => file.status !== "pending",
+    ).length;
+    logger.info("Cancelled job", {
+      jobId,
+      processed,
+      files: job.files.length,
+    });
+    finish(job);
+    return { job, cancelled: true };
+  };
+
+  const subscribe = (
+    jobId: string,
+    listener: (job: Job) => void,
+  ): (() => void) => {
+    events.on(jobId, listener);
+    return () => {
+      events.off(jobId, listener);
+    };
+  };
+
+  const stats = (): JobQueueStats => ({
+    queued: pending.length,
+    processing: running.size,
+  });
+
+  const start = async (): Promise<void> => {
+    const unfinished = await options.store.listUnfinished();
+    for (const job of unfinished) {
+      active.set(job.jobId, job);
+      pending.push(job.jobId);
+    }
+    if (unfinished.length > 0) {
+      logger.info("Resuming unfinished jobs", { jobs: unfinished.length });
+    }
+    const unfinalized = await options.store.listUnfinalized();
+    if (unfinalized.length > 0) {
+      logger.info("Finalizing jobs left unfinalized", {
+        jobs: unfinalized.length,
+      });
+    }
+    for (const job of unfinalized) options.onUnfinalized?.(job);
+    started = true;
+    drain();
+  };
+
+  // Stop picking up new jobs and let in-flight ones pause after their current file
+  const stop = async (): Promise<void> => {
+    stopped = true;
+    await Promise.all(running);
+  };
+
+  const isRunning = (): boolean => started && !stopped;
+
+  return {
+    enqueue,
+    get,
+    update,
+    cancel,
+    subscribe,
+    stats,
+    isRunning,
+    start,
+    stop,
+  };
+};
@@ -0,0 +1,252 @@
+// JWT bearer tokens - signatures checked against a JWKS file or URL
+import { decode, verify } from "hono/jwt";
+import type { SignatureAlgorithm } from "hono/utils/jwt/jwa";
+import { z } from "zod";
+import { readFileSync } from "node:fs";
+import { ScopeSchema } from "./auth.ts";
+import type { Principal, Scope } from "./auth.ts";
+import type { Logger } from "./logger.ts";
+
+type JsonWebKeyWithId = JsonWebKey & { kid?: string };
+
+const JwksSchema = z.object({
+  keys: z.array(
+    z.looseObject({
+      kty: z.string(),
+      kid: z.string().optional(),
+      alg: z.string().optional(),
+      use: z.string().optional(),
+    }),
+  ),
+});
+
+// Asymmetric algorithms only, per key type; a JWKS is public, so accepting
+// HMAC would let anyone holding it mint tokens
+const ALGORITHMS: Record<string, SignatureAlgorithm[]> = {
+  RSA: ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512"],
+  EC: ["ES256", "ES384", "ES512"],
+  OKP: ["EdDSA"],
+};
+
+// Refetching a JWKS URL for unknown key IDs, or after a failed fetch, is
+// capped at once per interval
+const MIN_REFRESH_INTERVAL_MS = 30000;
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+// Rejected token; the message is safe to return to the client
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+// The JWKS URL has never been fetched successfully, so no token can be checked
+export class JwksUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super("The token signing keys could not be loaded", { cause });
+    this.name = "JwksUnavailableError";
+  }
+}
+
+export interface JwtVerifierOptions {
+  // Exactly one of the two; a URL is refetched after cacheTtlMs, and early
+  // when a token names a key ID it does not know
+  jwksFile?: string;
+  jwksUrl?: string;
+  cacheTtlMs: number;
+  issuer: string;
+  audience: string;
+  // Allowed drift between our clock and the issuer's for exp and nbf
+  clockToleranceSeconds: number;
+  // Claim naming the principal's rate-limit tier
+  tierClaim: string;
+  logger: Logger;
+}
+
+export interface JwtVerifier {
+  // Resolves to the token's principal; rejects with JwtError for bad tokens
+  // and JwksUnavailableError while a JWKS URL has never been reachable
+  verify: (token: string) => Promise<Principal>;
+}
+
+const parseJwks = (data: unknown, source: string): JsonWebKeyWithId[] => {
+  const result = JwksSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid JWKS ${source}: ${z.prettifyError(result.error)}`);
+  }
+  // Encryption keys cannot verify signatures
+  return result.data.keys.filter(
+    (key) => key.use === undefined || key.use === "sig",
+  ) as JsonWebKeyWithId[];
+};
+
+// Space-separated OAuth `scope`, or an `scp` array; unknown scopes are ignored
+const readScopes = (payload: Record<string, unknown>): Scope[] => {
+  const raw =
+    typeof payload.scope === "string"
+      ? payload.scope.split(" ")
+      : Array.isArray(payload.scp)
+        ? payload.scp
+        : typeof payload.scp === "string"
+          ? payload.scp.split(" ")
+          : [];
+  return raw.flatMap((scope: unknown) => {
+    const parsed = ScopeSchema.safeParse(scope);
+    return parsed.success ? [parsed.data] : [];
+  });
+};
+
+// Hono's errors describe the token; reduce them to what a client can act on
+const REJECTIONS: Record<string, string> = {
+  JwtTokenIssuer: "The bearer token has an unexpected issuer",
+  JwtTokenAudience: "The bearer token has an unexpected audience",
+  JwtPayloadRequiresAud: "The bearer token has an unexpected audience",
+  JwtTokenSignatureMismatched: "The bearer token signature is invalid",
+};
+
+export const createJwtVerifier = (options: JwtVerifierOptions): JwtVerifier => {
+  const { jwksFile, jwksUrl } = options;
+  let keys: JsonWebKeyWithId[] = jwksFile
+    ? parseJwks(JSON.parse(readFileSync(jwksFile, "utf8")), jwksFile)
+    : [];
+  let fetchedAt = 0;
+  // Requests keep using the cached keys for a while after a failed fetch
+  // instead of each waiting on the unreachable issuer
+  let failedAt = 0;
+  let lastError: unknown;
+  // Concurrent requests share one refresh
+  let refreshing: Promise<void> | undefined;
+
+  const refresh = (): Promise<void> => {
+    if (!jwksUrl) return Promise.resolve();
+    refreshing ??= (async () => {
+      const response = await fetch(jwksUrl, {
+        signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Fetching JWKS ${jwksUrl} failed with ${String(response.status)}`,
+        );
+      }
+      keys = parseJwks(await response.json(), jwksUrl);
+      fetchedAt = Date.now();
+    })()
+      .catch((err: unknown) => {
+        failedAt = Date.now();
+        lastError = err;
+        options.logger.warn("JWKS refresh failed", {
+          jwksUrl,
+          cachedKeys: keys.length,
+          err,
+        });
+      })
+      .finally(() => {
+        refreshing = undefined;
+      });
+    return refreshing;
+  };
+
+  const sinceLastFetch = (): number =>
+    Date.now() - Math.max(fetchedAt, failedAt);
+
+  const findKey = (kid: string | undefined): JsonWebKeyWithId | undefined =>
+    kid === undefined
+      ? keys.length === 1
+        ? keys[0]
+        : undefined
+      : keys.find((key) => key.kid === kid);
+
+  const resolveKey = async (
+    kid: string | undefined,
+  ): Promise<JsonWebKeyWithId | undefined> => {
+    if (!jwksUrl) return findKey(kid);
+    // Stale keys beat no keys while the issuer is unreachable, so a failed
+    // refresh leaves them in place
+    if (
+      Date.now() - fetchedAt > options.cacheTtlMs &&
+      Date.now() - failedAt >= MIN_REFRESH_INTERVAL_MS
+    ) {
+      await refresh();
+    }
+    if (fetchedAt === 0) throw new JwksUnavailableError(lastError);
+    const key = findKey(kid);
+    if (key || sinceLastFetch() < MIN_REFRESH_INTERVAL_MS) return key;
+    // The issuer may have rotated in a key we have not seen yet
+    await refresh();
+    return findKey(kid);
+  };
+
+  return {
+    verify: async (token) => {
+      let header: { alg?: string; kid?: string };
+      let payload: Record<string, unknown>;
+      try {
+        ({ header, payload } = decode(token));
+      } catch {
+        throw new JwtError("The bearer token is malformed");
+      }
+
+      const key = await resolveKey(header.kid);
+      if (!key) {
+        throw new JwtError("The bearer token was signed with an unknown key");
+      }
+      const alg = header.alg as SignatureAlgorithm;
+      const allowed = ALGORITHMS[key.kty ?? ""] ?? [];
+      if (
+        !allowed.includes(alg) ||
+        (key.alg !== undefined && key.alg !== alg)
+      ) {
+        throw new JwtError(
+          "The bearer token uses an algorithm its key does not allow",
+        );
+      }
+
+      try {
+        await verify(token, key, {
+          alg,
+          iss: options.issuer,
+          aud: options.audience,
+          // Checked below with clock tolerance, and exp is required
+          exp: false,
+          nbf: false,
+          iat: false,
+        });
+      } catch (err) {
+        const name = err instanceof Error ? err.name : "";
+        throw new JwtError(
+          REJECTIONS[name] ?? "The bearer token could not be verified",
+        );
+      }
+
+      const now = Date.now() / 1000;
+      const tolerance = options.clockToleranceSeconds;
+      if (typeof payload.exp !== "number") {
+        throw new JwtError("The bearer token has no expiry");
+      }
+      if (payload.exp + tolerance <= now) {
+        throw new JwtError("The bearer token has expired");
+      }
+      if (typeof payload.nbf === "number" && payload.nbf - tolerance > now) {
+        throw new JwtError("The bearer token is not valid yet");
+      }
+      if (typeof payload.sub !== "string" || payload.sub === "") {
+        throw new JwtError("The bearer token has no subject");
+      }
+
+      const tier = payload[options.tierClaim];
+      return {
+        type: "jwt",
+        subject: payload.sub,
+        name:
+          typeof payload.name === "string"
+            ? payload.name
+            : typeof payload.preferred_username === "string"
+              ? payload.preferred_username
+              : payload.sub,
+        scopes: readScopes(payload),
+        tier: typeof tier === "string" ? tier : null,
+      };
+    },
+  };
+};
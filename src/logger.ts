@@ -0,0 +1,122 @@
+// Structured logger - JSON lines (or pretty text in development) with request context
+import { AsyncLocalStorage } from "node:async_hooks";
+import { inspect } from "node:util";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "json" | "pretty";
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  time: Date;
+  level: LogLevel;
+  msg: string;
+  // Context fields first, then the call's own fields
+  fields: LogFields;
+}
+
+export interface Logger {
+  debug: (msg: string, fields?: LogFields) => void;
+  info: (msg: string, fields?: LogFields) => void;
+  warn: (msg: string, fields?: LogFields) => void;
+  error: (msg: string, fields?: LogFields) => void;
+  // Logger that adds the given fields to every record
+  child: (fields: LogFields) => Logger;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  // Fields computed per record, such as the active trace and span IDs
+  context?: () => LogFields;
+  // Receives every record that passes the level filter
+  onRecord?: (record: LogRecord) => void;
+  write?: (line: string) => void;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Fields of the request or job being handled, inherited across awaits
+const scope = new AsyncLocalStorage<LogFields>();
+
+// Run fn with fields added to every record logged inside it; replaces the
+// caller's context, so work started from a request does not inherit its ID
+export const withLogContext = <T>(fields: LogFields, fn: () => T): T =>
+  scope.run(fields, fn);
+
+// Errors do not survive JSON.stringify; keep their name, message and stack
+const serialize = (value: unknown): unknown =>
+  value instanceof Error
+    ? { type: value.name, message: value.message, stack: value.stack }
+    : value;
+
+const PRETTY_LEVEL: Record<LogLevel, string> = {
+  debug: "\x1b[90mDEBUG\x1b[0m",
+  info: "\x1b[32mINFO \x1b[0m",
+  warn: "\x1b[33mWARN \x1b[0m",
+  error: "\x1b[31mERROR\x1b[0m",
+};
+
+const formatPretty = ({ time, level, msg, fields }: LogRecord): string => {
+  const { err, ...rest } = fields;
+  const pairs = Object.entries(rest)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `\x1b[2m${key}=\x1b[0m${typeof value === "string" ? value : inspect(value, { breakLength: Infinity })}`,
+    );
+  const line = [time.toISOString().slice(11, 23), PRETTY_LEVEL[level], msg]
+    .concat(pairs)
+    .join(" ");
+  return err instanceof Error && err.stack ? `${line}\n${err.stack}` : line;
+};
+
+const formatJson = ({ time, level, msg, fields }: LogRecord): string =>
+  JSON.stringify({ time: time.toISOString(), level, msg, ...fields }, (_, v) =>
+    serialize(v),
+  );
+
+export const createLogger = (options: LoggerOptions): Logger => {
+  const threshold = LEVEL_RANK[options.level];
+  const format = options.format === "pretty" ? formatPretty : formatJson;
+  const write =
+    options.write ??
+    ((line: string) => {
+      process.stdout.write(`${line}\n`);
+    });
+
+  const build = (bound: LogFields): Logger => {
+    const log =
+      (level: LogLevel) =>
+      (msg: string, fields: LogFields = {}): void => {
+        if (LEVEL_RANK[level] < threshold) return;
+        const record: LogRecord = {
+          time: new Date(),
+          level,
+          msg,
+          fields: {
+            ...scope.getStore(),
+            ...options.context?.(),
+            ...bound,
+            ...fields,
+          },
+        };
+        write(format(record));
+        options.onRecord?.(record);
+      };
+
+    return {
+      debug: log("debug"),
+      info: log("info"),
+      warn: log("warn"),
+      error: log("error"),
+      child: (fields) => build({ ...bound, ...fields }),
+    };
+  };
+
+  return build({});
+};
@@ -0,0 +1,130 @@
+// Prometheus metrics - scraped from GET /metrics in the OpenMetrics format
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import type { OpenMetricsContentType } from "prom-client";
+import type { JobQueueStats } from "./jobs.ts";
+import type { StorageCall } from "./storage.ts";
+
+export interface MetricsOptions {
+  // Read on every scrape
+  jobStats: () => JobQueueStats;
+}
+
+export interface Metrics {
+  registry: Registry<OpenMetricsContentType>;
+  httpRequests: Counter<"method" | "route" | "status">;
+  httpRequestDuration: Histogram<"method" | "route" | "status">;
+  rateLimitRejections: Counter<"route">;
+  storageOperationDuration: Histogram<"driver" | "operation" | "outcome">;
+  storageErrors: Counter<"driver" | "operation">;
+  jobsFinished: Counter<"status">;
+  simulatedDelay: Histogram;
+}
+
+// Requests range from health checks to downloads held open for minutes
+const HTTP_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+const STORAGE_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+// DOWNLOAD_DELAY_MIN_MS..MAX_MS defaults to 10-200 seconds
+const DELAY_BUCKETS = [1, 5, 10, 20, 30, 60, 90, 120, 150, 200, 300];
+
+export const createMetrics = (options: MetricsOptions): Metrics => {
+  const registry = new Registry<OpenMetricsContentType>();
+  registry.setContentType(Registry.OPENMETRICS_CONTENT_TYPE);
+  collectDefaultMetrics({ register: registry });
+  const registers = [registry];
+
+  new Gauge({
+    name: "download_job_queue_depth",
+    help: "Jobs waiting for a free worker",
+    registers,
+    collect() {
+      this.set(options.jobStats().queued);
+    },
+  });
+
+  new Gauge({
+    name: "download_jobs",
+    help: "Unfinished jobs by state",
+    labelNames: ["state"] as const,
+    registers,
+    collect() {
+      const { queued, processing } = options.jobStats();
+      this.set({ state: "queued" }, queued);
+      this.set({ state: "processing" }, processing);
+    },
+  });
+
+  return {
+    registry,
+    httpRequests: new Counter({
+      name: "http_requests_total",
+      help: "HTTP requests by route template and status",
+      labelNames: ["method", "route", "status"] as const,
+      registers,
+    }),
+    httpRequestDuration: new Histogram({
+      name: "http_request_duration_seconds",
+      help: "HTTP request latency by route template and status",
+      labelNames: ["method", "route", "status"] as const,
+      buckets: HTTP_BUCKETS,
+      registers,
+    }),
+    rateLimitRejections: new Counter({
+      name: "http_rate_limit_rejections_total",
+      help: "Requests rejected by the rate limiter",
+      labelNames: ["route"] as const,
+      registers,
+    }),
+    storageOperationDuration: new Histogram({
+      name: "storage_operation_duration_seconds",
+      help: "Storage call latency, per attempt",
+      labelNames: ["driver", "operation", "outcome"] as const,
+      buckets: STORAGE_BUCKETS,
+      registers,
+    }),
+    storageErrors: new Counter({
+      name: "storage_errors_total",
+      help: "Failed storage calls, per attempt",
+      labelNames: ["driver", "operation"] as const,
+      registers,
+    }),
+    jobsFinished: new Counter({
+      name: "download_jobs_finished_total",
+      help: "Jobs that reached a terminal state",
+      labelNames: ["status"] as const,
+      registers,
+    }),
+    simulatedDelay: new Histogram({
+      name: "download_simulated_delay_seconds",
+      help: "Delay injected into /v1/download/start",
+      buckets: DELAY_BUCKETS,
+      registers,
+    }),
+  };
+};
+
+export const recordStorageCall = (
+  metrics: Metrics,
+  call: StorageCall,
+): void => {
+  const outcome = call.error === undefined ? "ok" : "error";
+  metrics.storageOperationDuration.observe(
+    { driver: call.driver, operation: call.operation, outcome },
+    call.durationMs / 1000,
+  );
+  if (call.error !== undefined) {
+    metrics.storageErrors.inc({
+      driver: call.driver,
+      operation: call.operation,
+    });
+  }
+};
@@ -0,0 +1,197 @@
+// Mock storage - seeded demo files for tests and demos without real storage
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { setTimeout as delay } from "node:timers/promises";
+import { createMemoryStorage } from "./storage.ts";
+import type { MemoryObject, StorageDriver, UrlSigner } from "./storage.ts";
+
+const FileSettingsSchema = z.object({
+  contentType: z.string().min(1).optional(),
+  // Delay before each lookup or read
+  latencyMs: z.number().int().min(0).optional(),
+  // Chance of a transient failure per lookup or read, 0 to 1
+  failureRate: z.number().min(0).max(1).optional(),
+});
+
+const CatalogSchema = z.object({
+  // Overridden by STORAGE_MOCK_SEED when set
+  seed: z.union([z.string(), z.number()]).optional(),
+  defaults: FileSettingsSchema.extend({
+    // IDs divisible by this exist when not listed; 0 means only listed IDs exist
+    availableEvery: z.number().int().min(0).default(7),
+    minSize: z.number().int().min(0).default(1000),
+    maxSize: z.number().int().min(0).default(10000000),
+  }).default({ availableEvery: 7, minSize: 1000, maxSize: 10000000 }),
+  files: z
+    .array(
+      FileSettingsSchema.extend({
+        id: z.number().int().min(0),
+        // Listed IDs exist unless marked unavailable
+        available: z.boolean().default(true),
+        // Seeded within defaults.minSize..maxSize when omitted
+        size: z.number().int().min(0).optional(),
+      }),
+    )
+    .default([]),
+});
+
+export type MockCatalog = z.infer<typeof CatalogSchema>;
+
+// A catalog without files: every seventh ID exists, like the original demo
+export const defaultMockCatalog = (): MockCatalog => CatalogSchema.parse({});
+
+// Load a JSON or YAML catalog; invalid files fail startup with the zod issues
+export const loadMockCatalog = (filename: string): MockCatalog => {
+  const text = readFileSync(filename, "utf8");
+  const extension = path.extname(filename).toLowerCase();
+  const data: unknown =
+    extension === ".yaml" || extension === ".yml"
+      ? parseYaml(text)
+      : JSON.parse(text);
+  const result = CatalogSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      `Invalid mock storage catalog ${filename}: ${z.prettifyError(result.error)}`,
+    );
+  }
+  return result.data;
+};
+
+// Thrown for simulated failures; always retryable
+export class MockStorageError extends Error {
+  constructor(key: string) {
+    super(`Simulated storage failure for ${key}`);
+    this.name = "MockStorageError";
+  }
+}
+
+export interface MockStorageOptions {
+  seed: string;
+  catalog: MockCatalog;
+  signer: UrlSigner;
+  // Size limit for objects put into the store, such as bundles
+  maxObjectBytes: number;
+}
+
+const DEMO_FILE_KEY = /^downloads\/(\d+)\.zip$/;
+// Fixed so If-Modified-Since behaves the same on every run
+const MOCK_LAST_MODIFIED = new Date("2025-01-01T00:00:00.000Z");
+// Access counts kept for failing keys; the least recently accessed are
+// forgotten beyond this many, so a default failure rate cannot grow it forever
+const MAX_TRACKED_KEYS = 100000;
+
+function* zeroBytes(length: number): Generator<Buffer> {
+  const chunk = Buffer.alloc(64 * 1024);
+  for (let left = length; left > 0; left -= chunk.length) {
+    yield left >= chunk.length ? chunk : chunk.subarray(0, left);
+  }
+}
+
+// Seeded mock driver - sizes, ETags and failures depend only on the seed, the
+// key and how often that key was accessed, never on timing or other keys
+export const createMockStorage = (
+  options: MockStorageOptions,
+): StorageDriver => {
+  const { seed, catalog } = options;
+  const { defaults } = catalog;
+  const listed = new Map(catalog.files.map((file) => [file.id, file]));
+  // Only keys that can fail are counted, as the count only feeds their draws
+  const accesses = new Map<string, number>();
+
+  // Uniform value in [0, 1) derived from the seed and the given parts
+  const draw = (...parts: (string | number)[]): number =>
+    createHash("sha256")
+      .update([seed, ...parts].join("\n"))
+      .digest()
+      .readUInt32BE(0) /
+    2 ** 32;
+
+  // Only catalog keys are simulated; bundles and health checks are not
+  const settingsFor = (key: string) => {
+    const fileId = Number(DEMO_FILE_KEY.exec(key)?.[1] ?? Number.NaN);
+    const file = listed.get(fileId);
+    return {
+      fileId,
+      file,
+      latencyMs: Number.isInteger(fileId)
+        ? (file?.latencyMs ?? defaults.latencyMs ?? 0)
+        : 0,
+      failureRate: Number.isInteger(fileId)
+        ? (file?.failureRate ?? defaults.failureRate ?? 0)
+        : 0,
+    };
+  };
+
+  const synthesize = (key: string): MemoryObject | undefined => {
+    const { fileId, file } = settingsFor(key);
+    if (!Number.isInteger(fileId)) return undefined;
+    const exists = file
+      ? file.available
+      : defaults.availableEvery > 0 && fileId % defaults.availableEvery === 0;
+    if (!exists) return undefined;
+    const span = Math.max(0, defaults.maxSize - defaults.minSize);
+    const size =
+      file?.size ??
+      defaults.minSize + Math.floor(draw("size", fileId) * (span + 1));
+    return {
+      size,
+      contentType:
+        file?.contentType ?? defaults.contentType ?? "application/zip",
+      etag: `"${createHash("md5")
+        .update(`${seed}\n${key}\n${String(size)}`)
+        .digest("hex")}"`,
+      lastModified: MOCK_LAST_MODIFIED,
+      read: (start, end) => Readable.from(zeroBytes(end - start + 1)),
+    };
+  };
+
+  const memory = createMemoryStorage({
+    signer: options.signer,
+    maxObjectBytes: options.maxObjectBytes,
+    synthesize,
+  });
+
+  // Re-inserted on every access so the map stays ordered by last access
+  const countAccess = (key: string): number => {
+    const access = (accesses.get(key) ?? 0) + 1;
+    accesses.delete(key);
+    accesses.set(key, access);
+    if (accesses.size > MAX_TRACKED_KEYS) {
+      const oldest = accesses.keys().next();
+      if (!oldest.done) accesses.delete(oldest.value);
+    }
+    return access;
+  };
+
+  // Applies the simulated latency, then fails the nth access of a key when
+  // its seeded draw falls under the failure rate
+  const simulate = async (key: string, signal?: AbortSignal): Promise<void> => {
+    const { latencyMs, failureRate } = settingsFor(key);
+    const access = failureRate > 0 ? countAccess(key) : 0;
+    if (latencyMs > 0) await delay(latencyMs, undefined, { signal });
+    if (failureRate > 0 && draw("failure", key, access) < failureRate) {
+      throw new MockStorageError(key);
+    }
+  };
+
+  return {
+    ...memory,
+    head: async (key, signal) => {
+      await simulate(key, signal);
+      return memory.head(key, signal);
+    },
+    get: async (key, getOptions) => {
+      await simulate(key, getOptions?.signal);
+      return memory.get(key, getOptions);
+    },
+    isTransientError: (err) => err instanceof MockStorageError,
+    close: () => {
+      accesses.clear();
+      return memory.close();
+    },
+  };
+};
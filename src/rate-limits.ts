@@ -0,0 +1,391 @@
+// Rate limits and quotas - request buckets and daily file quotas per principal tier
+import type { Store } from "hono-rate-limiter";
+import { z } from "zod";
+import { RedisError } from "./redis.ts";
+import type { RedisClient } from "./redis.ts";
+
+export const TierLimitsSchema = z.object({
+  // Requests per window on the cheap and expensive route buckets
+  cheap: z.number().int().min(1),
+  expensive: z.number().int().min(1),
+  // Files per UTC day across job initiations and direct downloads
+  dailyFiles: z.number().int().min(0),
+});
+
+export type TierLimits = z.infer<typeof TierLimitsSchema>;
+
+// Overrides by tier name; fields left out keep the tier's defaults
+export const TierOverridesSchema = z.record(
+  z.string().min(1),
+  TierLimitsSchema.partial(),
+);
+
+export type TierOverrides = z.infer<typeof TierOverridesSchema>;
+
+export type RateLimitBucket = "cheap" | "expensive";
+
+// Requests without a principal, and principals without an assigned tier
+export const ANONYMOUS_TIER = "anonymous";
+export const DEFAULT_TIER = "standard";
+
+// Merge overrides into the defaults; new tiers must set every field
+export const resolveTiers = (
+  defaults: Record<string, TierLimits>,
+  overrides: TierOverrides,
+): Record<string, TierLimits> => {
+  const names = new Set([...Object.keys(defaults), ...Object.keys(overrides)]);
+  return Object.fromEntries(
+    [...names].map((name) => {
+      const result = TierLimitsSchema.safeParse({
+        ...defaults[name],
+        ...overrides[name],
+      });
+      if (!result.success) {
+        throw new Error(
+          `Invalid rate limit tier ${name}: ${z.prettifyError(result.error)}`,
+        );
+      }
+      return [name, result.data];
+    }),
+  );
+};
+
+export interface CounterWindow {
+  count: number;
+  resetAt: Date;
+}
+
+export interface BoundedIncrement extends CounterWindow {
+  // False when the amount did not fit, leaving the count as it was
+  added: boolean;
+}
+
+// Fixed-window counters shared by the rate limiters and the quotas
+export interface CounterStore {
+  // Add amount to the key's open window, opening one of windowMs if needed
+  increment: (
+    key: string,
+    amount: number,
+    windowMs: number,
+  ) => Promise<CounterWindow>;
+  // Like increment, but only when the count stays within limit; the check
+  // and the add are one step, so concurrent callers cannot overshoot
+  incrementWithin: (
+    key: string,
+    amount: number,
+    limit: number,
+    windowMs: number,
+  ) => Promise<BoundedIncrement>;
+  // The key's open window, or undefined when it has none
+  get: (key: string) => Promise<CounterWindow | undefined>;
+  reset: (key: string) => Promise<void>;
+  // Resolves when the backend answers
+  ping: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Expired windows are swept at most this often
+const SWEEP_INTERVAL_MS = 60000;
+
+// In-process counters - limits are per instance and reset on restart
+export const createMemoryCounterStore = (): CounterStore => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let sweptAt = Date.now();
+
+  const sweep = (now: number): void => {
+    if (now - sweptAt < SWEEP_INTERVAL_MS) return;
+    sweptAt = now;
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  const open = (key: string, now: number) => {
+    const window = windows.get(key);
+    return window && window.resetAt > now ? window : undefined;
+  };
+
+  return {
+    increment: (key, amount, windowMs) => {
+      const now = Date.now();
+      sweep(now);
+      const window = open(key, now) ?? { count: 0, resetAt: now + windowMs };
+      window.count += amount;
+      windows.set(key, window);
+      return Promise.resolve({
+        count: window.count,
+        resetAt: new Date(window.resetAt),
+      });
+    },
+    incrementWithin: (key, amount, limit, windowMs) => {
+      const now = Date.now();
+      sweep(now);
+      const window = open(key, now) ?? { count: 0, resetAt: now + windowMs };
+      const added = window.count + amount <= limit;
+      if (added) {
+        window.count += amount;
+        windows.set(key, window);
+      }
+      return Promise.resolve({
+        added,
+        count: window.count,
+        resetAt: new Date(window.resetAt),
+      });
+    },
+    get: (key) => {
+      const window = open(key, Date.now());
+      return Promise.resolve(
+        window && { count: window.count, resetAt: new Date(window.resetAt) },
+      );
+    },
+    reset: (key) => {
+      windows.delete(key);
+      return Promise.resolve();
+    },
+    ping: () => Promise.resolve(),
+    close: () => {
+      windows.clear();
+      return Promise.resolve();
+    },
+  };
+};
+
+// Adds ARGV[1] to KEYS[1] unless that would take it past ARGV[2], opening a
+// window of ARGV[3] ms; replies with whether it added, the count and the PTTL
+export const INCREMENT_WITHIN_SCRIPT = `local count = tonumber(redis.call("GET", KEYS[1]) or "0")
+if count + tonumber(ARGV[1]) > tonumber(ARGV[2]) then
+  return {0, count, redis.call("PTTL", KEYS[1])}
+end
+count = redis.call("INCRBY", KEYS[1], ARGV[1])
+redis.call("PEXPIRE", KEYS[1], ARGV[3], "NX")
+return {1, count, redis.call("PTTL", KEYS[1])}`;
+
+export interface RedisCounterStoreOptions {
+  client: RedisClient;
+  // Namespaces the keys when the server is shared with other data
+  prefix: string;
+}
+
+// Counters in Redis, shared by every replica. Windows are keys with a TTL;
+// PEXPIRE NX (Redis 7+) sets it only when the increment opened the window.
+export const createRedisCounterStore = (
+  options: RedisCounterStoreOptions,
+): CounterStore => {
+  const { client, prefix } = options;
+
+  // PTTL is negative for a missing key or one without an expiry
+  const toWindow = (count: unknown, ttl: unknown, fallbackMs: number) => ({
+    count: Number(count),
+    resetAt: new Date(
+      Date.now() + (typeof ttl === "number" && ttl > 0 ? ttl : fallbackMs),
+    ),
+  });
+
+  return {
+    increment: async (key, amount, windowMs) => {
+      const [count, , ttl] = await client.transaction([
+        ["INCRBY", `${prefix}${key}`, amount],
+        ["PEXPIRE", `${prefix}${key}`, windowMs, "NX"],
+        ["PTTL", `${prefix}${key}`],
+      ]);
+      return toWindow(count, ttl, windowMs);
+    },
+    incrementWithin: async (key, amount, limit, windowMs) => {
+      const reply = await client.command([
+        "EVAL",
+        INCREMENT_WITHIN_SCRIPT,
+        1,
+        `${prefix}${key}`,
+        amount,
+        limit,
+        windowMs,
+      ]);
+      if (!Array.isArray(reply) || reply.length !== 3) {
+        throw new RedisError("Unexpected reply to the quota script");
+      }
+      const [added, count, ttl] = reply;
+      return { added: added === 1, ...toWindow(count, ttl, windowMs) };
+    },
+    get: async (key) => {
+      const [count, ttl] = await client.transaction([
+        ["GET", `${prefix}${key}`],
+        ["PTTL", `${prefix}${key}`],
+      ]);
+      return count === null ? undefined : toWindow(count, ttl, 0);
+    },
+    reset: async (key) => {
+      await client.command(["DEL", `${prefix}${key}`]);
+    },
+    ping: async () => {
+      await client.command(["PING"]);
+    },
+    close: () => client.close(),
+  };
+};
+
+export interface FailOpenHandlers {
+  // Called when the backend starts failing, and once it answers again
+  onFailure: (err: unknown) => void;
+  onRecovery: () => void;
+}
+
+// Let requests through while the backend is unreachable: increments count
+// from zero and lookups find nothing. Health checks still see the failure.
+export const failOpen = (
+  store: CounterStore,
+  handlers: FailOpenHandlers,
+): CounterStore => {
+  let failing = false;
+  const guard = async <T>(
+    operation: Promise<T>,
+    fallback: () => T,
+  ): Promise<T> => {
+    try {
+      const result = await operation;
+      if (failing) {
+        failing = false;
+        handlers.onRecovery();
+      }
+      return result;
+    } catch (err) {
+      if (!failing) {
+        failing = true;
+        handlers.onFailure(err);
+      }
+      return fallback();
+    }
+  };
+
+  return {
+    increment: (key, amount, windowMs) =>
+      guard(store.increment(key, amount, windowMs), () => ({
+        count: Math.max(amount, 0),
+        resetAt: new Date(Date.now() + windowMs),
+      })),
+    incrementWithin: (key, amount, limit, windowMs) =>
+      guard(store.incrementWithin(key, amount, limit, windowMs), () => ({
+        added: true,
+        count: Math.max(amount, 0),
+        resetAt: new Date(Date.now() + windowMs),
+      })),
+    get: (key) => guard(store.get(key), () => undefined),
+    reset: (key) => guard(store.reset(key), () => undefined),
+    ping: store.ping,
+    close: store.close,
+  };
+};
+
+// hono-rate-limiter store over a counter store; prefix separates the buckets
+export const createRateLimitStore = (
+  counters: CounterStore,
+  prefix: string,
+): Store => {
+  // Set by the rate limiter from its windowMs option
+  let windowMs = 60000;
+  const toInfo = (window: CounterWindow) => ({
+    totalHits: window.count,
+    resetTime: window.resetAt,
+  });
+
+  return {
+    init: (options) => {
+      windowMs = options.windowMs;
+    },
+    get: async (key) => {
+      const window = await counters.get(`${prefix}${key}`);
+      return window && toInfo(window);
+    },
+    increment: async (key) =>
+      toInfo(await counters.increment(`${prefix}${key}`, 1, windowMs)),
+    decrement: async (key) => {
+      await counters.increment(`${prefix}${key}`, -1, windowMs);
+    },
+    resetKey: (key) => counters.reset(`${prefix}${key}`),
+  };
+};
+
+export interface FailureLimiterOptions {
+  // Separates this limiter's counters from the others
+  prefix: string;
+  // Failures allowed per key and window
+  limit: number;
+  windowMs: number;
+}
+
+export interface FailureLimiter {
+  // The key's open window once it has used up its failures
+  blocked: (key: string) => Promise<CounterWindow | undefined>;
+  record: (key: string) => Promise<CounterWindow>;
+}
+
+// Failed attempts per key, such as rejected credentials per client address;
+// callers check blocked() before doing the work that can fail
+export const createFailureLimiter = (
+  counters: CounterStore,
+  options: FailureLimiterOptions,
+): FailureLimiter => ({
+  blocked: async (key) => {
+    const window = await counters.get(`${options.prefix}${key}`);
+    return window && window.count >= options.limit ? window : undefined;
+  },
+  record: (key) =>
+    counters.increment(`${options.prefix}${key}`, 1, options.windowMs),
+});
+
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface FileQuota {
+  // Count files against today's quota; nothing is counted when they do not fit
+  consume: (
+    key: string,
+    files: number,
+    limit: number,
+  ) => Promise<{ allowed: boolean; usage: QuotaUsage }>;
+  usage: (key: string, limit: number) => Promise<QuotaUsage>;
+}
+
+// Quotas reset at midnight UTC; the date in the key starts a fresh window
+export const createDailyFileQuota = (counters: CounterStore): FileQuota => {
+  const today = () => {
+    const now = new Date();
+    const resetAt = new Date(now);
+    resetAt.setUTCHours(24, 0, 0, 0);
+    return {
+      day: now.toISOString().slice(0, 10),
+      resetAt,
+      msLeft: resetAt.getTime() - now.getTime(),
+    };
+  };
+  const toUsage = (used: number, limit: number, resetAt: Date) => ({
+    limit,
+    used,
+    remaining: Math.max(limit - used, 0),
+    resetAt,
+  });
+
+  return {
+    consume: async (key, files, limit) => {
+      const { day, resetAt, msLeft } = today();
+      const window = await counters.incrementWithin(
+        `quota:${day}:${key}`,
+        files,
+        limit,
+        msLeft,
+      );
+      return {
+        allowed: window.added,
+        usage: toUsage(window.count, limit, resetAt),
+      };
+    },
+    usage: async (key, limit) => {
+      const { day, resetAt } = today();
+      const window = await counters.get(`quota:${day}:${key}`);
+      return toUsage(window?.count ?? 0, limit, resetAt);
+    },
+  };
+};
@@ -0,0 +1,238 @@
+// Redis client - the slice of RESP2 the shared rate-limit store needs, over one
+// pipelined connection
+import net from "node:net";
+import tls from "node:tls";
+import { backoffDelay } from "./retry.ts";
+
+export type RedisArgument = string | number;
+export type RedisReply = string | number | null | RedisError | RedisReply[];
+
+// Error reply from the server, e.g. WRONGTYPE or NOAUTH
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisError";
+  }
+}
+
+export interface RedisClientOptions {
+  // redis://[user:password@]host[:port][/db], or rediss:// for TLS
+  url: string;
+  // Covers connecting and each reply; the connection is dropped on timeout,
+  // since later replies could otherwise be matched to the wrong command
+  timeoutMs: number;
+}
+
+export interface RedisClient {
+  // Rejects with RedisError when the server answers with an error
+  command: (args: RedisArgument[]) => Promise<RedisReply>;
+  // Run the commands atomically in MULTI/EXEC; resolves to each one's reply
+  transaction: (commands: RedisArgument[][]) => Promise<RedisReply[]>;
+  close: () => Promise<void>;
+}
+
+export const encodeCommand = (args: RedisArgument[]): string =>
+  `*${String(args.length)}\r\n${args
+    .map((arg) => {
+      const value = String(arg);
+      return `$${String(Buffer.byteLength(value))}\r\n${value}\r\n`;
+    })
+    .join("")}`;
+
+// Parse one reply starting at offset; undefined until the buffer holds all of it
+export const parseReply = (
+  buffer: Buffer,
+  offset = 0,
+): { reply: RedisReply; offset: number } | undefined => {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return undefined;
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case "+":
+      return { reply: line, offset: next };
+    case "-":
+      return { reply: new RedisError(line), offset: next };
+    case ":":
+      return { reply: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { reply: null, offset: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return {
+        reply: buffer.toString("utf8", next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { reply: null, offset: next };
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return undefined;
+        items.push(item.reply);
+        position = item.offset;
+      }
+      return { reply: items, offset: position };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type ${line.slice(0, 20)}`);
+  }
+};
+
+// Reconnect backoff after a failed connection, so an outage does not open a
+// connection per rate-limited request
+const RECONNECT_BASE_DELAY_MS = 100;
+const RECONNECT_MAX_DELAY_MS = 5000;
+
+interface Pending {
+  resolve: (reply: RedisReply) => void;
+  reject: (err: Error) => void;
+}
+
+// Connects on first use, and again on the next command after the connection
+// drops; commands awaiting a reply when it drops are rejected. After a failure,
+// commands are rejected without connecting until the backoff delay has passed.
+export const createRedisClient = (options: RedisClientOptions): RedisClient => {
+  const url = new URL(options.url);
+  const secure = url.protocol === "rediss:";
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const port = Number(url.port || 6379);
+  const database = url.pathname.slice(1);
+
+  let socket: net.Socket | undefined;
+  let buffer: Buffer = Buffer.alloc(0);
+  const pending: Pending[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  // Consecutive failed connections, and when the next attempt may start
+  let failures = 0;
+  let retryAt = 0;
+
+  const failAll = (err: Error): void => {
+    for (const entry of pending.splice(0)) entry.reject(err);
+  };
+
+  // One timer for the oldest unanswered command
+  const armTimer = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (pending.length === 0) return;
+    timer = setTimeout(() => {
+      socket?.destroy(
+        new Error(`Redis did not answer within ${String(options.timeoutMs)}ms`),
+      );
+    }, options.timeoutMs);
+  };
+
+  const onData = (connection: net.Socket, chunk: Buffer): void => {
+    buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+    try {
+      let parsed = parseReply(buffer);
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset);
+        failures = 0;
+        const entry = pending.shift();
+        if (parsed.reply instanceof RedisError) {
+          entry?.reject(parsed.reply);
+        } else {
+          entry?.resolve(parsed.reply);
+        }
+        parsed = buffer.length > 0 ? parseReply(buffer) : undefined;
+      }
+    } catch (err) {
+      // Not a Redis server, or a corrupt stream; nothing after this can be
+      // matched to a command
+      failAll(err as Error);
+      connection.destroy(err as Error);
+      return;
+    }
+    armTimer();
+  };
+
+  const connect = (): net.Socket => {
+    const connection = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    connection.setNoDelay(true);
+    connection.on("data", (chunk: Buffer) => {
+      onData(connection, chunk);
+    });
+    connection.on("error", (err: Error) => {
+      failAll(err);
+    });
+    connection.on("close", (hadError) => {
+      if (hadError || pending.length > 0) {
+        failures++;
+        retryAt =
+          Date.now() +
+          backoffDelay(
+            failures,
+            RECONNECT_BASE_DELAY_MS,
+            RECONNECT_MAX_DELAY_MS,
+          );
+      }
+      if (socket === connection) socket = undefined;
+      buffer = Buffer.alloc(0);
+      clearTimeout(timer);
+      failAll(new Error("Redis connection closed"));
+    });
+    return connection;
+  };
+
+  const send = (args: RedisArgument[]): Promise<RedisReply> =>
+    new Promise((resolve, reject) => {
+      pending.push({ resolve, reject });
+      socket?.write(encodeCommand(args));
+      if (!timer) armTimer();
+    });
+
+  const command = (args: RedisArgument[]): Promise<RedisReply> => {
+    if (!socket || socket.destroyed) {
+      if (Date.now() < retryAt) {
+        return Promise.reject(
+          new Error("Redis is unavailable; waiting before reconnecting"),
+        );
+      }
+      socket = connect();
+      // Written ahead of the command, so their failures surface through it
+      if (url.password) {
+        const username = decodeURIComponent(url.username);
+        const password = decodeURIComponent(url.password);
+        void send(
+          username ? ["AUTH", username, password] : ["AUTH", password],
+        ).catch(() => undefined);
+      }
+      if (database) {
+        void send(["SELECT", database]).catch(() => undefined);
+      }
+    }
+    return send(args);
+  };
+
+  return {
+    command,
+    transaction: async (commands) => {
+      const replies = await Promise.all([
+        command(["MULTI"]),
+        ...commands.map(command),
+        command(["EXEC"]),
+      ]);
+      const results = replies.at(-1);
+      if (!Array.isArray(results)) {
+        throw new RedisError("Transaction was aborted");
+      }
+      const failed = results.find((reply) => reply instanceof RedisError);
+      if (failed) throw failed;
+      return results;
+    },
+    close: async () => {
+      if (!socket || socket.destroyed) return;
+      const closing = socket;
+      await command(["QUIT"]).catch(() => undefined);
+      closing.destroy();
+    },
+  };
+};
@@ -0,0 +1,76 @@
+// Retry helpers - jittered exponential backoff for transient failures
+import { setTimeout as sleep } from "node:timers/promises";
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Whether a failed attempt is worth repeating
+  isRetryable: (err: unknown) => boolean;
+  // Stops retrying (and any pending backoff) when aborted
+  signal?: AbortSignal;
+}
+
+// Thrown once a retryable failure has used up every attempt; the last failure
+// is kept as the cause
+export class RetryError extends Error {
+  readonly attempts: number;
+
+  constructor(attempts: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Failed after ${String(attempts)} attempt(s): ${reason}`, { cause });
+    this.name = "RetryError";
+    this.attempts = attempts;
+  }
+}
+
+// Attempts made before a permanent failure was rethrown, keyed by the error
+// so it reaches the caller unchanged
+const permanentFailureAttempts = new WeakMap<object, number>();
+
+// How many attempts an operation got before retry() gave up with err; 1 for
+// errors that did not come through retry()
+export const failedAttempts = (err: unknown): number => {
+  if (err instanceof RetryError) return err.attempts;
+  if (typeof err === "object" && err !== null) {
+    return permanentFailureAttempts.get(err) ?? 1;
+  }
+  return 1;
+};
+
+// Full jitter: a random delay up to the capped exponential ceiling
+export const backoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+): number =>
+  Math.floor(
+    Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)),
+  );
+
+export const retry = async <T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+): Promise<{ value: T; attempts: number }> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await operation(), attempts: attempt };
+    } catch (err) {
+      // Aborts are not failures of the operation, and permanent failures
+      // (access denied, bad input) must not pass for an outage; surface both
+      // unchanged
+      if (options.signal?.aborted || !options.isRetryable(err)) {
+        if (typeof err === "object" && err !== null) {
+          permanentFailureAttempts.set(err, attempt);
+        }
+        throw err;
+      }
+      if (attempt >= options.maxAttempts) throw new RetryError(attempt, err);
+      await sleep(
+        backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs),
+        undefined,
+        { signal: options.signal },
+      );
+    }
+  }
+};
@@ -0,0 +1,690 @@
+// Storage drivers - where downloadable files live (S3, local directory, memory)
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  S3Client,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import type { S3ClientConfig } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { createReadStream, createWriteStream, mkdirSync } from "node:fs";
+import { readdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+}
+
+export interface GetObjectOptions {
+  // Single byte range header value, e.g. "bytes=0-99", "bytes=100-" or "bytes=-500"
+  range?: string;
+  ifNoneMatch?: string;
+  ifModifiedSince?: Date;
+  signal?: AbortSignal;
+}
+
+export type GetObjectResult =
+  | {
+      status: "ok";
+      info: ObjectInfo;
+      body: Readable;
+      contentLength: number;
+      // Set when a range was served
+      contentRange: string | null;
+    }
+  | { status: "not-modified"; etag: string | null; lastModified: Date | null }
+  | { status: "range-not-satisfiable"; size: number | null }
+  | { status: "not-found" };
+
+export interface PutObjectOptions {
+  contentType: string;
+  signal?: AbortSignal;
+}
+
+export interface PresignOptions {
+  expiresInSeconds: number;
+  // File name offered to the browser (Content-Disposition)
+  filename: string;
+}
+
+export interface StorageDriver {
+  readonly name: "s3" | "local" | "memory";
+  // Object metadata, or undefined when the key does not exist
+  head: (key: string, signal?: AbortSignal) => Promise<ObjectInfo | undefined>;
+  get: (key: string, options?: GetObjectOptions) => Promise<GetObjectResult>;
+  put: (
+    key: string,
+    body: Readable,
+    options: PutObjectOptions,
+  ) => Promise<ObjectInfo>;
+  // Missing keys are not an error
+  delete: (key: string) => Promise<void>;
+  // Objects under the prefix in key order, at most `limit`
+  list: (prefix: string, limit: number) => Promise<ObjectInfo[]>;
+  // URL a client can fetch the object from without credentials
+  presign: (key: string, options: PresignOptions) => Promise<string>;
+  // Whether a failed call may succeed when repeated
+  isTransientError: (err: unknown) => boolean;
+  close: () => Promise<void>;
+}
+
+export type StorageOperation =
+  | "head"
+  | "get"
+  | "put"
+  | "delete"
+  | "list"
+  | "presign";
+
+export interface StorageCall {
+  driver: StorageDriver["name"];
+  operation: StorageOperation;
+  durationMs: number;
+  // Set when the call rejected
+  error?: unknown;
+}
+
+// Report every driver call to the observer; each retry attempt is a separate call
+export const observeStorage = (
+  driver: StorageDriver,
+  observer: (call: StorageCall) => void,
+): StorageDriver => {
+  const observed =
+    <A extends unknown[], R>(
+      operation: StorageOperation,
+      call: (...args: A) => Promise<R>,
+    ) =>
+    async (...args: A): Promise<R> => {
+      const startedAt = performance.now();
+      const report = (error?: unknown): void => {
+        observer({
+          driver: driver.name,
+          operation,
+          durationMs: performance.now() - startedAt,
+          ...(error !== undefined && { error }),
+        });
+      };
+      try {
+        const result = await call(...args);
+        report();
+        return result;
+      } catch (err) {
+        report(err);
+        throw err;
+      }
+    };
+
+  return {
+    ...driver,
+    head: observed("head", driver.head),
+    get: observed("get", driver.get),
+    put: observed("put", driver.put),
+    delete: observed("delete", driver.delete),
+    list: observed("list", driver.list),
+    presign: observed("presign", driver.presign),
+  };
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".zip": "application/zip",
+  ".json": "application/json",
+  ".txt": "text/plain",
+  ".pdf": "application/pdf",
+};
+
+export const contentTypeFor = (key: string): string =>
+  CONTENT_TYPES[path.posix.extname(key).toLowerCase()] ??
+  "application/octet-stream";
+
+// Resolve a single byte range against the object size (RFC 9110 section 14.1.2)
+const resolveRange = (
+  header: string,
+  size: number,
+): { start: number; end: number } | "unsatisfiable" | undefined => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header);
+  if (!match) return undefined;
+  const [, first = "", last = ""] = match;
+  if (first === "") {
+    // Suffix range: the final N bytes
+    const length = Number(last);
+    if (last === "" || length === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+  const start = Number(first);
+  if (start >= size) return "unsatisfiable";
+  const end = last === "" ? size - 1 : Math.min(Number(last), size - 1);
+  return end < start ? undefined : { start, end };
+};
+
+const stripWeak = (etag: string): string => etag.trim().replace(/^W\//, "");
+
+// If-None-Match takes precedence over If-Modified-Since (RFC 9110 section 13.2.2)
+const isNotModified = (
+  info: ObjectInfo,
+  options: GetObjectOptions,
+): boolean => {
+  if (options.ifNoneMatch !== undefined) {
+    const tags = options.ifNoneMatch.split(",").map(stripWeak);
+    return tags.includes("*") || tags.includes(stripWeak(info.etag));
+  }
+  if (options.ifModifiedSince) {
+    // HTTP dates have second precision
+    return (
+      Math.floor(info.lastModified.getTime() / 1000) <=
+      Math.floor(options.ifModifiedSince.getTime() / 1000)
+    );
+  }
+  return false;
+};
+
+// Shared get() for drivers that serve bytes themselves
+const serveObject = (
+  info: ObjectInfo,
+  options: GetObjectOptions,
+  read: (start: number, end: number) => Readable,
+): GetObjectResult => {
+  if (isNotModified(info, options)) {
+    return {
+      status: "not-modified",
+      etag: info.etag,
+      lastModified: info.lastModified,
+    };
+  }
+  const range = options.range
+    ? resolveRange(options.range, info.size)
+    : undefined;
+  if (range === "unsatisfiable") {
+    return { status: "range-not-satisfiable", size: info.size };
+  }
+  const { start, end } = range ?? { start: 0, end: info.size - 1 };
+  return {
+    status: "ok",
+    info,
+    body: read(start, end),
+    contentLength: Math.max(0, end - start + 1),
+    contentRange: range
+      ? `bytes ${String(start)}-${String(end)}/${String(info.size)}`
+      : null,
+  };
+};
+
+// Leaving the loop early (on abort or overflow) destroys the source stream
+const collect = async (
+  body: Readable,
+  maxBytes: number,
+  signal?: AbortSignal,
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    signal?.throwIfAborted();
+    const buffer = Buffer.from(chunk as Uint8Array);
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new Error(
+        `Object exceeds the memory storage limit of ${String(maxBytes)} bytes`,
+      );
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+export interface UrlSignerOptions {
+  // Absolute URL of the route that serves signed objects
+  endpoint: string;
+  secret: string;
+}
+
+export interface SignedObjectParams {
+  key: string;
+  expires: number;
+  filename: string;
+  signature: string;
+}
+
+export interface UrlSigner {
+  sign: (key: string, options: PresignOptions) => string;
+  // False when the signature does not match or the URL has expired
+  verify: (params: SignedObjectParams) => boolean;
+}
+
+// HMAC-signed URLs to the service itself, for drivers without a public endpoint
+export const createUrlSigner = (options: UrlSignerOptions): UrlSigner => {
+  const signatureFor = (key: string, expires: number, filename: string) =>
+    createHmac("sha256", options.secret)
+      .update(`${key}\n${String(expires)}\n${filename}`)
+      .digest("hex");
+
+  return {
+    sign: (key, { expiresInSeconds, filename }) => {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const url = new URL(options.endpoint);
+      url.searchParams.set("key", key);
+      url.searchParams.set("expires", String(expires));
+      url.searchParams.set("filename", filename);
+      url.searchParams.set("signature", signatureFor(key, expires, filename));
+      return url.toString();
+    },
+    verify: ({ key, expires, filename, signature }) => {
+      if (expires < Date.now() / 1000) return false;
+      const expected = Buffer.from(signatureFor(key, expires, filename));
+      const given = Buffer.from(signature);
+      return (
+        given.length === expected.length && timingSafeEqual(given, expected)
+      );
+    },
+  };
+};
+
+export interface S3StorageOptions {
+  // Shared client settings (region, credentials, path style, ...)
+  clientConfig: S3ClientConfig;
+  endpoint: string | undefined;
+  // Endpoint presigned URLs are issued for, when clients reach storage under
+  // a different host than the service (e.g. localhost:9000 vs minio:9000)
+  publicEndpoint: string | undefined;
+  bucket: string;
+  // Multipart upload part size; S3 requires at least 5 MiB
+  partSizeBytes: number;
+}
+
+const isS3NotFound = (err: unknown): boolean =>
+  err instanceof Error && (err.name === "NotFound" || err.name === "NoSuchKey");
+
+// HTTP status of an S3 error response (304 NotModified, 416 InvalidRange, ...)
+const s3StatusCode = (err: unknown): number | undefined =>
+  err instanceof S3ServiceException ? err.$metadata.httpStatusCode : undefined;
+
+// Size of the whole object from "bytes start-end/size"
+const totalSize = (contentRange: string | undefined): number | undefined => {
+  const size = contentRange?.split("/")[1];
+  return size === undefined || size === "*" ? undefined : Number(size);
+};
+
+export const createS3Storage = (options: S3StorageOptions): StorageDriver => {
+  const { bucket } = options;
+  const client = new S3Client({
+    ...options.clientConfig,
+    ...(options.endpoint && { endpoint: options.endpoint }),
+  });
+  // Presigning happens locally, so a second client can sign for the public host
+  const presignClient = options.publicEndpoint
+    ? new S3Client({
+        ...options.clientConfig,
+        endpoint: options.publicEndpoint,
+      })
+    : client;
+
+  const head: StorageDriver["head"] = async (key, signal) => {
+    try {
+      const response = await client.send(
+        new HeadObjectCommand({ Bucket: bucket, Key: key }),
+        { abortSignal: signal },
+      );
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType ?? contentTypeFor(key),
+        etag: response.ETag ?? "",
+        lastModified: response.LastModified ?? new Date(0),
+      };
+    } catch (err) {
+      if (isS3NotFound(err)) return undefined;
+      throw err;
+    }
+  };
+
+  const get: StorageDriver["get"] = async (key, getOptions = {}) => {
+    try {
+      const response = await client.send(
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Range: getOptions.range,
+          IfNoneMatch: getOptions.ifNoneMatch,
+          IfModifiedSince: getOptions.ifModifiedSince,
+        }),
+        { abortSignal: getOptions.signal },
+      );
+      if (!response.Body) return { status: "not-found" };
+      const contentLength = response.ContentLength ?? 0;
+      return {
+        status: "ok",
+        info: {
+          key,
+          size: totalSize(response.ContentRange) ?? contentLength,
+          contentType: response.ContentType ?? contentTypeFor(key),
+          etag: response.ETag ?? "",
+          lastModified: response.LastModified ?? new Date(0),
+        },
+        body: response.Body as Readable,
+        contentLength,
+        contentRange: response.ContentRange ?? null,
+      };
+    } catch (err) {
+      if (isS3NotFound(err)) return { status: "not-found" };
+      if (s3StatusCode(err) === 304) {
+        const headers = (err as S3ServiceException).$response?.headers;
+        const lastModified = headers?.["last-modified"];
+        return {
+          status: "not-modified",
+          etag: headers?.etag ?? null,
+          lastModified: lastModified ? new Date(lastModified) : null,
+        };
+      }
+      if (s3StatusCode(err) === 416) {
+        return { status: "range-not-satisfiable", size: null };
+      }
+      throw err;
+    }
+  };
+
+  const put: StorageDriver["put"] = async (key, body, putOptions) => {
+    const upload = new Upload({
+      client,
+      params: {
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: putOptions.contentType,
+      },
+      partSize: options.partSizeBytes,
+      leavePartsOnError: false,
+    });
+    const abort = () => {
+      void upload.abort();
+    };
+    putOptions.signal?.addEventListener("abort", abort, { once: true });
+    try {
+      await upload.done();
+    } finally {
+      putOptions.signal?.removeEventListener("abort", abort);
+    }
+    const info = await head(key);
+    if (!info) throw new Error(`Uploaded object ${key} is missing`);
+    return info;
+  };
+
+  // S3 reports success for keys that do not exist
+  const remove: StorageDriver["delete"] = async (key) => {
+    await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+  };
+
+  const list: StorageDriver["list"] = async (prefix, limit) => {
+    const objects: ObjectInfo[] = [];
+    let token: string | undefined;
+    do {
+      const response = await client.send(
+        new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: prefix,
+          MaxKeys: Math.min(1000, limit - objects.length),
+          ContinuationToken: token,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          contentType: contentTypeFor(object.Key),
+          etag: object.ETag ?? "",
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+      token = response.NextContinuationToken;
+    } while (token && objects.length < limit);
+    return objects;
+  };
+
+  const presign: StorageDriver["presign"] = (key, presignOptions) =>
+    getSignedUrl(
+      presignClient,
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ResponseContentDisposition: `attachment; filename="${presignOptions.filename}"`,
+      }),
+      { expiresIn: presignOptions.expiresInSeconds },
+    );
+
+  // Server faults, throttling and network errors may succeed on a later attempt;
+  // other client faults (AccessDenied, bad credentials) will not
+  const isTransientError = (err: unknown): boolean => {
+    if (isS3NotFound(err)) return false;
+    if (err instanceof S3ServiceException) {
+      return err.$fault === "server" || err.$retryable?.throttling === true;
+    }
+    return true;
+  };
+
+  const close = (): Promise<void> => {
+    client.destroy();
+    if (presignClient !== client) presignClient.destroy();
+    return Promise.resolve();
+  };
+
+  return {
+    name: "s3",
+    head,
+    get,
+    put,
+    delete: remove,
+    list,
+    presign,
+    isTransientError,
+    close,
+  };
+};
+
+export interface LocalStorageOptions {
+  // Directory objects are stored under; keys map to relative paths
+  root: string;
+  signer: UrlSigner;
+}
+
+// Errors the operating system reports for momentary resource pressure
+const TRANSIENT_FS_CODES = new Set(["EMFILE", "ENFILE", "EAGAIN", "EBUSY"]);
+
+const errorCode = (err: unknown): string | undefined =>
+  err instanceof Error && "code" in err ? String(err.code) : undefined;
+
+// Local directory - for offline demos and tests without MinIO
+export const createLocalStorage = (
+  options: LocalStorageOptions,
+): StorageDriver => {
+  const root = path.resolve(options.root);
+  mkdirSync(root, { recursive: true });
+
+  // Keys must stay inside the root directory
+  const fileFor = (key: string): string => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  const head: StorageDriver["head"] = async (key) => {
+    try {
+      const stats = await stat(fileFor(key));
+      if (!stats.isFile()) return undefined;
+      return {
+        key,
+        size: stats.size,
+        contentType: contentTypeFor(key),
+        etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+        lastModified: stats.mtime,
+      };
+    } catch (err) {
+      if (errorCode(err) === "ENOENT" || errorCode(err) === "ENOTDIR") {
+        return undefined;
+      }
+      throw err;
+    }
+  };
+
+  const get: StorageDriver["get"] = async (key, getOptions = {}) => {
+    const info = await head(key);
+    if (!info) return { status: "not-found" };
+    return serveObject(info, getOptions, (start, end) =>
+      createReadStream(fileFor(key), {
+        start,
+        end,
+        signal: getOptions.signal,
+      }),
+    );
+  };
+
+  const put: StorageDriver["put"] = async (key, body, putOptions) => {
+    const file = fileFor(key);
+    mkdirSync(path.dirname(file), { recursive: true });
+    // Write aside and rename so readers never see a partial file
+    const partial = `${file}.${crypto.randomUUID()}.partial`;
+    try {
+      await pipeline(body, createWriteStream(partial), {
+        signal: putOptions.signal,
+      });
+      await rename(partial, file);
+    } catch (err) {
+      await rm(partial, { force: true });
+      throw err;
+    }
+    const info = await head(key);
+    if (!info) throw new Error(`Written object ${key} is missing`);
+    return info;
+  };
+
+  const list: StorageDriver["list"] = async (prefix, limit) => {
+    const entries = await readdir(root, { recursive: true });
+    const keys = entries
+      .map((entry) => entry.split(path.sep).join("/"))
+      .filter((key) => key.startsWith(prefix) && !key.endsWith(".partial"))
+      .sort();
+    const objects: ObjectInfo[] = [];
+    for (const key of keys) {
+      if (objects.length >= limit) break;
+      const info = await head(key);
+      if (info) objects.push(info);
+    }
+    return objects;
+  };
+
+  return {
+    name: "local",
+    head,
+    get,
+    put,
+    delete: (key) => rm(fileFor(key), { force: true }),
+    list,
+    presign: (key, presignOptions) =>
+      Promise.resolve(options.signer.sign(key, presignOptions)),
+    isTransientError: (err) => TRANSIENT_FS_CODES.has(errorCode(err) ?? ""),
+    close: () => Promise.resolve(),
+  };
+};
+
+export interface MemoryObject {
+  size: number;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+  // Bytes start..end inclusive
+  read: (start: number, end: number) => Readable;
+}
+
+export interface MemoryStorageOptions {
+  signer: UrlSigner;
+  // Larger puts are rejected, since every object is held in a buffer
+  maxObjectBytes: number;
+  // Resolves keys that were never put, such as synthetic demo files
+  synthesize?: (key: string) => MemoryObject | undefined;
+}
+
+// Memory object backed by a buffer
+export const bufferObject = (
+  content: Buffer,
+  contentType: string,
+): MemoryObject => ({
+  size: content.length,
+  contentType,
+  etag: `"${createHash("md5").update(content).digest("hex")}"`,
+  lastModified: new Date(),
+  read: (start, end) => Readable.from([content.subarray(start, end + 1)]),
+});
+
+// In-memory store - lost on restart, intended for tests and development
+export const createMemoryStorage = (
+  options: MemoryStorageOptions,
+): StorageDriver => {
+  const objects = new Map<string, MemoryObject>();
+
+  const lookup = (key: string): MemoryObject | undefined =>
+    objects.get(key) ?? options.synthesize?.(key);
+
+  const infoOf = (key: string, object: MemoryObject): ObjectInfo => ({
+    key,
+    size: object.size,
+    contentType: object.contentType,
+    etag: object.etag,
+    lastModified: object.lastModified,
+  });
+
+  return {
+    name: "memory",
+    head: (key) => {
+      const object = lookup(key);
+      return Promise.resolve(object && infoOf(key, object));
+    },
+    get: (key, getOptions = {}) => {
+      const object = lookup(key);
+      if (!object) return Promise.resolve({ status: "not-found" as const });
+      return Promise.resolve(
+        serveObject(infoOf(key, object), getOptions, object.read),
+      );
+    },
+    put: async (key, body, putOptions) => {
+      const content = await collect(
+        body,
+        options.maxObjectBytes,
+        putOptions.signal,
+      );
+      // The body may end cleanly after an abort; never store a partial object
+      putOptions.signal?.throwIfAborted();
+      const object = bufferObject(content, putOptions.contentType);
+      objects.set(key, object);
+      return infoOf(key, object);
+    },
+    delete: (key) => {
+      objects.delete(key);
+      return Promise.resolve();
+    },
+    // Synthesized objects are not enumerable, only those that were put
+    list: (prefix, limit) =>
+      Promise.resolve(
+        [...objects]
+          .filter(([key]) => key.startsWith(prefix))
+          .sort(([a], [b]) => a.localeCompare(b))
+          .slice(0, limit)
+          .map(([key, object]) => infoOf(key, object)),
+      ),
+    presign: (key, presignOptions) =>
+      Promise.resolve(options.signer.sign(key, presignOptions)),
+    isTransientError: () => false,
+    close: () => {
+      objects.clear();
+      return Promise.resolve();
+    },
+  };
+};
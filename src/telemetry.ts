@@ -0,0 +1,115 @@
+// OpenTelemetry meters and log records - exported over OTLP next to traces
+import { metrics } from "@opentelemetry/api";
+import { logs, SeverityNumber } from "@opentelemetry/api-logs";
+import type { AnyValueMap } from "@opentelemetry/api-logs";
+import type { Job } from "./jobs.ts";
+import type { LogFields, LogLevel, LogRecord } from "./logger.ts";
+import type { StorageCall } from "./storage.ts";
+
+export interface Telemetry {
+  recordStorageCall: (call: StorageCall) => void;
+  recordJobFinished: (job: Job) => void;
+}
+
+const errorType = (err: unknown): string =>
+  err instanceof Error ? err.name : typeof err;
+
+// Instruments bind to the global meter provider, so create them after the SDK starts
+export const createTelemetry = (scope: string): Telemetry => {
+  const meter = metrics.getMeter(scope);
+  const storageDuration = meter.createHistogram("storage.operation.duration", {
+    description: "Storage call latency, per attempt",
+    unit: "s",
+  });
+  const storageErrors = meter.createCounter("storage.operation.errors", {
+    description: "Failed storage calls, per attempt",
+  });
+  const jobDuration = meter.createHistogram("download.job.duration", {
+    description: "Time from job creation to its terminal state",
+    unit: "s",
+  });
+  const fileLookups = meter.createCounter("download.job.file_lookups", {
+    description: "File lookups inside finished jobs by outcome",
+  });
+
+  return {
+    recordStorageCall: (call) => {
+      const attributes = {
+        "storage.driver": call.driver,
+        "storage.operation": call.operation,
+      };
+      storageDuration.record(call.durationMs / 1000, {
+        ...attributes,
+        outcome: call.error === undefined ? "ok" : "error",
+      });
+      if (call.error !== undefined) {
+        storageErrors.add(1, {
+          ...attributes,
+          "error.type": errorType(call.error),
+        });
+      }
+    },
+    recordJobFinished: (job) => {
+      const status = { "job.status": job.status };
+      const finishedAt = job.completedAt ? Date.parse(job.completedAt) : NaN;
+      if (!Number.isNaN(finishedAt)) {
+        jobDuration.record(
+          (finishedAt - Date.parse(job.createdAt)) / 1000,
+          status,
+        );
+      }
+      for (const file of job.files) {
+        // Files of a cancelled job that were never looked up stay pending
+        const outcome =
+          file.status === "completed"
+            ? file.available
+              ? "available"
+              : "unavailable"
+            : file.status;
+        fileLookups.add(1, { ...status, outcome });
+      }
+    },
+  };
+};
+
+const SEVERITY: Record<LogLevel, SeverityNumber> = {
+  debug: SeverityNumber.DEBUG,
+  info: SeverityNumber.INFO,
+  warn: SeverityNumber.WARN,
+  error: SeverityNumber.ERROR,
+};
+
+// OTel attribute values are primitives or arrays of them
+const toAttributes = (fields: LogFields): AnyValueMap => {
+  const attributes: AnyValueMap = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) continue;
+    if (value instanceof Error) {
+      attributes["exception.type"] = value.name;
+      attributes["exception.message"] = value.message;
+      if (value.stack) attributes["exception.stacktrace"] = value.stack;
+    } else if (typeof value === "object") {
+      attributes[key] = JSON.stringify(value);
+    } else {
+      attributes[key] = value as string | number | boolean;
+    }
+  }
+  return attributes;
+};
+
+// Forward logger records as OTel log records. They are emitted in the active
+// context, so the SDK stamps them with the current trace and span IDs.
+export const exportLogRecords = (
+  scope: string,
+): ((record: LogRecord) => void) => {
+  const logger = logs.getLogger(scope);
+  return (record) => {
+    logger.emit({
+      timestamp: record.time,
+      severityNumber: SEVERITY[record.level],
+      severityText: record.level.toUpperCase(),
+      body: record.msg,
+      attributes: toAttributes(record.fields),
+    });
+  };
+};
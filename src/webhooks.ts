@@ -0,0 +1,232 @@
+// Webhook delivery - signed POST callbacks with retry and backoff
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { backoffDelay } from "./retry.ts";
+
+export interface WebhookDelivery {
+  attempt: number;
+  attemptedAt: string;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookTarget {
+  url: string;
+  // Per-target signing secret; falls back to the dispatcher default
+  secret: string | null;
+}
+
+export interface WebhookDispatcherOptions {
+  // Secret used when the target does not provide its own
+  defaultSecret: string | undefined;
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  timeoutMs: number;
+  // Hosts that may resolve to private, loopback or link-local addresses
+  allowedPrivateHosts: string[];
+}
+
+// "interrupted" when the dispatcher was stopped before the attempts ran out
+export type WebhookOutcome = "delivered" | "failed" | "interrupted";
+
+export interface WebhookDispatcher {
+  // deliveryId is sent as X-Webhook-Id; pass the same one when a delivery is
+  // resumed so receivers can tell it is not a new event
+  deliver: (
+    target: WebhookTarget,
+    event: string,
+    payload: unknown,
+    onAttempt: (delivery: WebhookDelivery) => void,
+    deliveryId?: string,
+  ) => Promise<WebhookOutcome>;
+  stop: () => Promise<void>;
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>" so receivers can reject replays
+export const signWebhook = (
+  secret: string,
+  timestamp: string,
+  body: string,
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved
+// ranges; callbacks there would let callers probe the internal network
+const PRIVATE_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const privateAddresses = new BlockList();
+for (const [network, prefix, type] of PRIVATE_RANGES) {
+  privateAddresses.addSubnet(network, prefix, type);
+}
+
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+const isPrivateAddress = (address: string): boolean => {
+  const ipv4 = IPV4_MAPPED.exec(address)?.[1] ?? address;
+  return isIP(ipv4) === 4
+    ? privateAddresses.check(ipv4, "ipv4")
+    : privateAddresses.check(ipv4, "ipv6");
+};
+
+// The target is not allowed; retrying cannot help
+class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookTargetError";
+  }
+}
+
+// Client errors will not succeed on retry, except timeouts and throttling
+const isRetryableStatus = (status: number): boolean =>
+  status >= 500 || status === 408 || status === 429;
+
+export const createWebhookDispatcher = (
+  options: WebhookDispatcherOptions,
+): WebhookDispatcher => {
+  const inFlight = new Set<Promise<WebhookOutcome>>();
+  const controller = new AbortController();
+  const allowedPrivateHosts = new Set(
+    options.allowedPrivateHosts.map((host) => host.toLowerCase()),
+  );
+
+  // Checked before every attempt, since DNS answers can change between them.
+  // fetch resolves the name again, so a host that rebinds within that window
+  // is not caught; redirects are never followed.
+  const checkTarget = async (url: string): Promise<void> => {
+    const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+    if (allowedPrivateHosts.has(host.toLowerCase())) return;
+    const addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+    if (addresses.some(isPrivateAddress)) {
+      throw new WebhookTargetError(
+        `${host} resolves to a private, loopback or link-local address`,
+      );
+    }
+  };
+
+  const send = async (
+    target: WebhookTarget,
+    event: string,
+    payload: unknown,
+    onAttempt: (delivery: WebhookDelivery) => void,
+    deliveryId: string,
+  ): Promise<WebhookOutcome> => {
+    const body = JSON.stringify(payload);
+    const secret = target.secret ?? options.defaultSecret;
+
+    for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+      if (controller.signal.aborted) return "interrupted";
+
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "User-Agent": "delineate-webhooks/1.0",
+        "X-Webhook-Event": event,
+        "X-Webhook-Id": deliveryId,
+        "X-Webhook-Timestamp": timestamp,
+      };
+      if (secret) {
+        headers["X-Webhook-Signature"] = signWebhook(secret, timestamp, body);
+      }
+
+      const startTime = Date.now();
+      let statusCode: number | null = null;
+      let error: string | null = null;
+      let blocked = false;
+      try {
+        await checkTarget(target.url);
+        const response = await fetch(target.url, {
+          method: "POST",
+          headers,
+          body,
+          redirect: "manual",
+          signal: AbortSignal.any([
+            controller.signal,
+            AbortSignal.timeout(options.timeoutMs),
+          ]),
+        });
+        statusCode = response.status;
+        // Drain the body so the connection can be reused
+        await response.body?.cancel();
+        if (!response.ok) error = `Unexpected status ${String(statusCode)}`;
+      } catch (err) {
+        blocked = err instanceof WebhookTargetError;
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      onAttempt({
+        attempt,
+        attemptedAt: new Date(startTime).toISOString(),
+        statusCode,
+        error,
+        durationMs: Date.now() - startTime,
+      });
+
+      if (error === null) return "delivered";
+      if (blocked) return "failed";
+      if (statusCode !== null && !isRetryableStatus(statusCode)) {
+        return "failed";
+      }
+      if (attempt < options.maxAttempts) {
+        // Resolves early (and the loop exits) when the dispatcher is stopped
+        await sleep(
+          backoffDelay(attempt, options.backoffBaseMs, options.backoffMaxMs),
+          undefined,
+          { signal: controller.signal },
+        ).catch(() => undefined);
+      }
+    }
+    // The last attempt may have been the one the stop aborted
+    return controller.signal.aborted ? "interrupted" : "failed";
+  };
+
+  const deliver: WebhookDispatcher["deliver"] = (
+    target,
+    event,
+    payload,
+    onAttempt,
+    deliveryId = crypto.randomUUID(),
+  ) => {
+    const delivery = send(
+      target,
+      event,
+      payload,
+      onAttempt,
+      deliveryId,
+    ).finally(() => {
+      inFlight.delete(delivery);
+    });
+    inFlight.add(delivery);
+    return delivery;
+  };
+
+  // Abort in-flight requests and pending retries, then wait for them to settle
+  const stop = async (): Promise<void> => {
+    controller.abort();
+    await Promise.all(inFlight);
+  };
+
+  return { deliver, stop };
+};